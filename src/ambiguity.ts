@@ -0,0 +1,534 @@
+import { CharSet } from "./char-set";
+import { FAIterator, TooManyNodesError } from "./finite-automaton";
+import { stronglyConnectedComponents } from "./util";
+
+/**
+ * A state of the given FA has two distinct cycles that read the same word.
+ *
+ * If the FA has such a state, the number of paths for a word can grow exponentially with the length of the word.
+ */
+export interface ExponentialAmbiguity<S> {
+	/**
+	 * The state at which both cycles start and end.
+	 */
+	readonly start: S;
+	/**
+	 * All states of the two distinct cycles.
+	 */
+	readonly states: readonly S[];
+	/**
+	 * A word set that leads from the initial state to {@link start}.
+	 */
+	readonly prefix: CharSet[];
+	/**
+	 * The word set of the two cycles. Every word of the word set can be read along both cycles.
+	 */
+	readonly pump: CharSet[];
+	/**
+	 * A word set that leads from {@link start} to a final state or `undefined` if there is no such word set.
+	 */
+	readonly suffix: CharSet[] | undefined;
+}
+
+/**
+ * Two distinct states `p` and `q` of the given FA such that there is a word that can be read along a cycle of `p`,
+ * along a path from `p` to `q`, and along a cycle of `q`.
+ *
+ * If the FA has such states, the number of paths for a word can grow polynomially with the length of the word.
+ */
+export interface PolynomialAmbiguity<S> {
+	/**
+	 * The degree of the polynomial.
+	 *
+	 * This is the number of pairs in the longest chain of pairs like `p` and `q` that contains this pair. The pairs of
+	 * a chain are connected by paths from the `q` of one pair to the `p` of the next pair. The number of paths for a
+	 * word can grow with `O(n^degree)` where `n` is the length of the word.
+	 */
+	readonly degree: number;
+	/**
+	 * The state `p`.
+	 */
+	readonly from: S;
+	/**
+	 * The state `q`.
+	 */
+	readonly to: S;
+	/**
+	 * All states of the cycle of `p`, the path from `p` to `q`, and the cycle of `q`.
+	 */
+	readonly states: readonly S[];
+	/**
+	 * A word set that leads from the initial state to `p`.
+	 */
+	readonly prefix: CharSet[];
+	/**
+	 * The word set of the cycle of `p`, the path from `p` to `q`, and the cycle of `q`.
+	 */
+	readonly pump: CharSet[];
+	/**
+	 * A word set that leads from `q` to a final state or `undefined` if there is no such word set.
+	 */
+	readonly suffix: CharSet[] | undefined;
+}
+
+interface Transition {
+	readonly to: number;
+	readonly characters: CharSet;
+}
+interface IndexedFA<S> {
+	readonly states: readonly S[];
+	/**
+	 * The outgoing transitions of each state. The initial state has the index 0.
+	 */
+	readonly out: readonly (readonly Transition[])[];
+	readonly final: readonly boolean[];
+}
+
+/**
+ * Returns all exponential ambiguities of the given FA.
+ *
+ * The given FA is allowed to have multiple transitions between the same two states. These are treated as distinct
+ * paths, so an FA is also exponentially ambiguous if a cycle contains two parallel transitions that share a
+ * character.
+ *
+ * The ambiguities are found by searching the product of the FA with itself. If the search has to visit more than the
+ * given number of pairs of states, a `TooManyNodesError` will be thrown.
+ *
+ * @param iter
+ * @param maxNodes
+ */
+export function findExponentialAmbiguities<S>(
+	iter: FAIterator<S, Iterable<[S, CharSet]>>,
+	maxNodes: number
+): ExponentialAmbiguity<S>[] {
+	const fa = indexFA(iter);
+	const { states, out } = fa;
+	const n = states.length;
+
+	interface PairEdge {
+		readonly to: number;
+		readonly a: CharSet;
+		readonly b: CharSet;
+		/**
+		 * Whether this edge uses two different transitions of the same state.
+		 */
+		readonly branch: boolean;
+	}
+	const pairEdges = new Map<number, PairEdge[]>();
+	function getPairEdges(key: number): PairEdge[] {
+		let edges = pairEdges.get(key);
+		if (edges === undefined) {
+			if (pairEdges.size >= maxNodes) {
+				throw new TooManyNodesError(
+					`The search is not allowed to visit more than ${maxNodes} pairs of states.`
+				);
+			}
+
+			const a = Math.floor(key / n);
+			const b = key % n;
+			const list: PairEdge[] = [];
+			out[a].forEach((ta, i) => {
+				out[b].forEach((tb, j) => {
+					if (!ta.characters.isDisjointWith(tb.characters)) {
+						list.push({
+							to: ta.to * n + tb.to,
+							a: ta.characters,
+							b: tb.characters,
+							branch: a === b && i !== j,
+						});
+					}
+				});
+			});
+			edges = list;
+			pairEdges.set(key, edges);
+		}
+		return edges;
+	}
+	const isDiagonal = (key: number): boolean => Math.floor(key / n) === key % n;
+
+	const diagonals: number[] = [];
+	for (let i = 0; i < n; i++) {
+		diagonals.push(i * n + i);
+	}
+	const components = stronglyConnectedComponents(diagonals, key => getPairEdges(key).map(e => e.to));
+
+	const result: ExponentialAmbiguity<S>[] = [];
+	for (const component of components) {
+		const start = component.find(isDiagonal);
+		if (start === undefined) {
+			continue;
+		}
+
+		const inComponent = new Set(component);
+		const hasBranch =
+			component.some(key => !isDiagonal(key)) ||
+			component.some(key => getPairEdges(key).some(e => e.branch && inComponent.has(e.to)));
+		if (!hasBranch) {
+			continue;
+		}
+
+		// find the shortest cycle from the start pair to itself that diverges at some point
+		interface SearchNode {
+			readonly key: number;
+			readonly diverged: boolean;
+			readonly parent: SearchNode | null;
+			readonly edge: PairEdge | null;
+		}
+		const visited = new Set<string>();
+		let current: SearchNode[] = [{ key: start, diverged: false, parent: null, edge: null }];
+		let found: SearchNode | undefined = undefined;
+		while (found === undefined && current.length > 0) {
+			const next: SearchNode[] = [];
+			for (const node of current) {
+				for (const edge of getPairEdges(node.key)) {
+					if (!inComponent.has(edge.to)) {
+						continue;
+					}
+					const diverged = node.diverged || edge.branch || !isDiagonal(edge.to);
+					const id = edge.to + (diverged ? "d" : "");
+					if (!visited.has(id)) {
+						visited.add(id);
+						const searchNode: SearchNode = { key: edge.to, diverged, parent: node, edge };
+						if (diverged && edge.to === start) {
+							found = searchNode;
+							break;
+						}
+						next.push(searchNode);
+					}
+				}
+				if (found !== undefined) {
+					break;
+				}
+			}
+			current = next;
+		}
+
+		if (found === undefined) {
+			// this can't happen because the component contains a diverging cycle
+			throw new Error("Unable to find a diverging cycle.");
+		}
+
+		const pump: CharSet[] = [];
+		const cycleStates = new Set<number>();
+		for (let node: SearchNode = found; node.edge !== null; node = node.parent!) {
+			pump.push(node.edge.a.intersect(node.edge.b));
+			cycleStates.add(Math.floor(node.key / n));
+			cycleStates.add(node.key % n);
+		}
+		pump.reverse();
+
+		const startState = start % n;
+		result.push({
+			start: states[startState],
+			states: [...cycleStates].sort((a, b) => a - b).map(i => states[i]),
+			prefix: shortestWordSet(fa, 0, s => s === startState)!,
+			pump,
+			suffix: shortestWordSet(fa, startState, s => fa.final[s]),
+		});
+	}
+
+	return result;
+}
+
+/**
+ * Returns all polynomial ambiguities of the given FA.
+ *
+ * For every pair of strongly connected components of the FA, at most one polynomial ambiguity will be returned.
+ *
+ * The ambiguities are found by searching the product of the FA with itself and itself. If one search has to visit
+ * more than the given number of triples of states, a `TooManyNodesError` will be thrown.
+ *
+ * @param iter
+ * @param maxNodes
+ */
+export function findPolynomialAmbiguities<S>(
+	iter: FAIterator<S, Iterable<[S, CharSet]>>,
+	maxNodes: number
+): PolynomialAmbiguity<S>[] {
+	const fa = indexFA(iter);
+	const { states, out } = fa;
+	const n = states.length;
+
+	// The components are in reverse topological order, so reachability can be computed in order.
+	const components = stronglyConnectedComponents([0], s => out[s].map(t => t.to));
+	const componentOf: number[] = [];
+	components.forEach((component, i) => component.forEach(s => (componentOf[s] = i)));
+	const reachable: Set<number>[] = components.map(
+		(_, i) => new Set<number>([i])
+	);
+	components.forEach((component, i) => {
+		for (const s of component) {
+			for (const { to } of out[s]) {
+				reachable[componentOf[to]].forEach(c => reachable[i].add(c));
+			}
+		}
+	});
+	const successors: Set<number>[] = components.map((component, i) => {
+		const set = new Set<number>();
+		for (const s of component) {
+			for (const { to } of out[s]) {
+				set.add(componentOf[to]);
+			}
+		}
+		set.delete(i);
+		return set;
+	});
+	const hasCycle = components.map(
+		component => component.length > 1 || out[component[0]].some(t => t.to === component[0])
+	);
+
+	interface Link {
+		readonly from: number;
+		readonly to: number;
+		readonly p: number;
+		readonly q: number;
+		readonly states: readonly number[];
+		readonly pump: CharSet[];
+	}
+	const links: Link[] = [];
+	const linksFrom: Link[][] = components.map(() => []);
+	for (let c1 = 0; c1 < components.length; c1++) {
+		if (!hasCycle[c1]) {
+			continue;
+		}
+		for (const c2 of reachable[c1]) {
+			if (c1 === c2 || !hasCycle[c2]) {
+				continue;
+			}
+
+			searchPairs: for (const p of components[c1]) {
+				for (const q of components[c2]) {
+					const witness = findPolynomialWitness(p, q);
+					if (witness !== undefined) {
+						const link: Link = { from: c1, to: c2, p, q, ...witness };
+						links.push(link);
+						linksFrom[c1].push(link);
+						break searchPairs;
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Returns the states and the word set of the cycle of `p`, the path from `p` to `q`, and the cycle of `q`.
+	 */
+	function findPolynomialWitness(p: number, q: number): { states: number[]; pump: CharSet[] } | undefined {
+		const c1 = componentOf[p];
+		const c2 = componentOf[q];
+		const isBetween = (s: number): boolean =>
+			reachable[c1].has(componentOf[s]) && reachable[componentOf[s]].has(c2);
+
+		interface SearchNode {
+			readonly a: number;
+			readonly b: number;
+			readonly c: number;
+			readonly parent: SearchNode | null;
+			readonly characters: CharSet | null;
+		}
+		const visited = new Set<number>([(p * n + p) * n + q]);
+		let current: SearchNode[] = [{ a: p, b: p, c: q, parent: null, characters: null }];
+		while (current.length > 0) {
+			const next: SearchNode[] = [];
+			for (const node of current) {
+				for (const ta of out[node.a]) {
+					if (componentOf[ta.to] !== c1) {
+						continue;
+					}
+					for (const tb of out[node.b]) {
+						if (!isBetween(tb.to) || ta.characters.isDisjointWith(tb.characters)) {
+							continue;
+						}
+						const ab = ta.characters.intersect(tb.characters);
+						for (const tc of out[node.c]) {
+							if (componentOf[tc.to] !== c2 || ab.isDisjointWith(tc.characters)) {
+								continue;
+							}
+
+							const key = (ta.to * n + tb.to) * n + tc.to;
+							if (visited.has(key)) {
+								continue;
+							}
+							if (visited.size >= maxNodes) {
+								throw new TooManyNodesError(
+									`The search is not allowed to visit more than ${maxNodes} triples of states.`
+								);
+							}
+							visited.add(key);
+
+							const searchNode: SearchNode = {
+								a: ta.to,
+								b: tb.to,
+								c: tc.to,
+								parent: node,
+								characters: ab.intersect(tc.characters),
+							};
+							if (ta.to === p && tb.to === q && tc.to === q) {
+								const pump: CharSet[] = [];
+								const pathStates = new Set<number>();
+								for (let n: SearchNode = searchNode; n.characters !== null; n = n.parent!) {
+									pump.push(n.characters);
+									pathStates.add(n.a).add(n.b).add(n.c);
+								}
+								pathStates.add(p).add(q);
+								return { states: [...pathStates].sort((x, y) => x - y), pump: pump.reverse() };
+							}
+							next.push(searchNode);
+						}
+					}
+				}
+			}
+			current = next;
+		}
+		return undefined;
+	}
+
+	// The longest chains of links that end before/start after each component. Components are in reverse topological
+	// order, so all links and transitions go from a higher to a lower index.
+	const longestBefore = components.map(() => 0);
+	for (let c = components.length - 1; c >= 0; c--) {
+		for (const link of linksFrom[c]) {
+			longestBefore[link.to] = Math.max(longestBefore[link.to], longestBefore[c] + 1);
+		}
+		for (const d of successors[c]) {
+			longestBefore[d] = Math.max(longestBefore[d], longestBefore[c]);
+		}
+	}
+	const longestAfter = components.map(() => 0);
+	for (let c = 0; c < components.length; c++) {
+		for (const d of successors[c]) {
+			longestAfter[c] = Math.max(longestAfter[c], longestAfter[d]);
+		}
+		for (const link of linksFrom[c]) {
+			longestAfter[c] = Math.max(longestAfter[c], longestAfter[link.to] + 1);
+		}
+	}
+
+	return links.map(link => ({
+		degree: longestBefore[link.from] + 1 + longestAfter[link.to],
+		from: states[link.p],
+		to: states[link.q],
+		states: link.states.map(i => states[i]),
+		prefix: shortestWordSet(fa, 0, s => s === link.p)!,
+		pump: link.pump,
+		suffix: shortestWordSet(fa, link.q, s => fa.final[s]),
+	}));
+}
+
+/**
+ * Returns a word set such that every word in the set can be accepted along two distinct paths of the given FA.
+ *
+ * If the FA is unambiguous, `undefined` will be returned.
+ *
+ * The word set is found by searching the product of the FA with itself. If the search has to visit more than the given
+ * number of pairs of states, a `TooManyNodesError` will be thrown.
+ *
+ * @param iter
+ * @param maxNodes
+ */
+export function findAmbiguousWordSet<S>(
+	iter: FAIterator<S, Iterable<[S, CharSet]>>,
+	maxNodes: number
+): CharSet[] | undefined {
+	const { out, final } = indexFA(iter);
+
+	// BFS over pairs of states and whether the two paths to the pair differ
+	interface SearchNode {
+		readonly a: number;
+		readonly b: number;
+		readonly diverged: boolean;
+		readonly parent: SearchNode | null;
+		readonly characters: CharSet | null;
+	}
+	const visited = new Set<string>(["0,0"]);
+	let current: SearchNode[] = [{ a: 0, b: 0, diverged: false, parent: null, characters: null }];
+	while (current.length > 0) {
+		const next: SearchNode[] = [];
+		for (const node of current) {
+			if (node.diverged && final[node.a] && final[node.b]) {
+				const wordSet: CharSet[] = [];
+				for (let n: SearchNode = node; n.characters !== null; n = n.parent!) {
+					wordSet.push(n.characters);
+				}
+				return wordSet.reverse();
+			}
+
+			out[node.a].forEach((ta, i) => {
+				out[node.b].forEach((tb, j) => {
+					if (ta.characters.isDisjointWith(tb.characters)) {
+						return;
+					}
+					// Since both paths are interchangeable, only pairs with a <= b have to be visited
+					const [a, b] = ta.to <= tb.to ? [ta.to, tb.to] : [tb.to, ta.to];
+					const diverged = node.diverged || a !== b || (node.a === node.b && i !== j);
+					const key = `${a},${b}${diverged ? "d" : ""}`;
+					if (!visited.has(key)) {
+						if (visited.size >= maxNodes) {
+							throw new TooManyNodesError(
+								`The search is not allowed to visit more than ${maxNodes} pairs of states.`
+							);
+						}
+						visited.add(key);
+						next.push({ a, b, diverged, parent: node, characters: ta.characters.intersect(tb.characters) });
+					}
+				});
+			});
+		}
+		current = next;
+	}
+	return undefined;
+}
+
+function indexFA<S>(iter: FAIterator<S, Iterable<[S, CharSet]>>): IndexedFA<S> {
+	const states: S[] = [iter.initial];
+	const ids = new Map<S, number>([[iter.initial, 0]]);
+	const out: Transition[][] = [];
+	const final: boolean[] = [];
+	for (let i = 0; i < states.length; i++) {
+		const transitions: Transition[] = [];
+		for (const [to, characters] of iter.getOut(states[i])) {
+			let id = ids.get(to);
+			if (id === undefined) {
+				id = states.length;
+				ids.set(to, id);
+				states.push(to);
+			}
+			transitions.push({ to: id, characters });
+		}
+		out.push(transitions);
+		final.push(iter.isFinal(states[i]));
+	}
+	return { states, out, final };
+}
+
+/**
+ * Returns the shortest word set that leads from the given state to a target state.
+ */
+function shortestWordSet(
+	fa: IndexedFA<unknown>,
+	from: number,
+	isTarget: (state: number) => boolean
+): CharSet[] | undefined {
+	const parents = new Map<number, [number, CharSet] | null>([[from, null]]);
+	let current = [from];
+	while (current.length > 0) {
+		const next: number[] = [];
+		for (const state of current) {
+			if (isTarget(state)) {
+				const wordSet: CharSet[] = [];
+				for (let p = parents.get(state)!; p !== null; p = parents.get(p[0])!) {
+					wordSet.push(p[1]);
+				}
+				return wordSet.reverse();
+			}
+			for (const { to, characters } of fa.out[state]) {
+				if (!parents.has(to)) {
+					parents.set(to, [state, characters]);
+					next.push(to);
+				}
+			}
+		}
+		current = next;
+	}
+	return undefined;
+}
@@ -21,6 +21,13 @@ export interface Alternation extends NodeBase {
 	type: "Alternation";
 	parent: Concatenation;
 	alternatives: Concatenation[];
+	/**
+	 * The number of the capturing group this alternation represents.
+	 *
+	 * Capturing groups are numbered from left to right starting at 1. This will be `undefined` for all alternations
+	 * which don't represent a capturing group.
+	 */
+	capture?: number;
 }
 
 export interface Assertion extends NodeBase {
@@ -193,7 +200,8 @@ function toPatternConcatenation(concat: Simple<Concatenation>): string {
 function toPatternElement(element: Simple<Element>): string {
 	switch (element.type) {
 		case "Alternation": {
-			return "(?:" + toPatternAlternatives(element.alternatives) + ")";
+			const open = element.capture === undefined ? "(?:" : "(";
+			return open + toPatternAlternatives(element.alternatives) + ")";
 		}
 		case "Assertion": {
 			const kind = element.kind === "ahead" ? "" : "<";
@@ -0,0 +1,366 @@
+import { Concatenation, Element, Simple } from "./ast";
+import { CharSet } from "./char-set";
+import { getBaseSets } from "./char-util";
+import { FAIterator } from "./finite-automaton";
+import { assertNever } from "./util";
+
+/**
+ * A normalized regular expression.
+ *
+ * All terms are hash-consed, so two terms are similar if and only if they are the same object.
+ */
+export type Term = EmptyTerm | EpsilonTerm | CharTerm | ConcatTerm | UnionTerm | RepeatTerm;
+
+interface TermBase {
+	readonly id: number;
+	readonly nullable: boolean;
+}
+interface EmptyTerm extends TermBase {
+	readonly type: "Empty";
+}
+interface EpsilonTerm extends TermBase {
+	readonly type: "Epsilon";
+}
+interface CharTerm extends TermBase {
+	readonly type: "Char";
+	readonly characters: CharSet;
+}
+interface ConcatTerm extends TermBase {
+	readonly type: "Concat";
+	/**
+	 * At least 2 terms, none of which are empty, epsilon, or concatenations.
+	 */
+	readonly terms: readonly Term[];
+}
+interface UnionTerm extends TermBase {
+	readonly type: "Union";
+	/**
+	 * At least 2 terms sorted by id, none of which are empty or unions. At most one of them is a char term.
+	 */
+	readonly terms: readonly Term[];
+}
+interface RepeatTerm extends TermBase {
+	readonly type: "Repeat";
+	readonly term: Term;
+	readonly min: number;
+	readonly max: number;
+}
+
+/**
+ * Creates and normalizes terms.
+ *
+ * Terms are normalized such that similar terms (as defined by Brzozowski) are the same term. This guarantees that
+ * every term only has finitely many distinct derivatives.
+ */
+class TermFactory {
+	private readonly _terms = new Map<string, Term>();
+	private readonly _maxCharacter: number;
+
+	readonly empty: Term;
+	readonly epsilon: Term;
+
+	constructor(maxCharacter: number) {
+		this._maxCharacter = maxCharacter;
+		this.empty = this._intern("0", id => ({ type: "Empty", id, nullable: false }));
+		this.epsilon = this._intern("1", id => ({ type: "Epsilon", id, nullable: true }));
+	}
+
+	private _intern(key: string, create: (id: number) => Term): Term {
+		let term = this._terms.get(key);
+		if (term === undefined) {
+			term = create(this._terms.size);
+			this._terms.set(key, term);
+		}
+		return term;
+	}
+
+	char(characters: CharSet): Term {
+		if (characters.maximum !== this._maxCharacter) {
+			throw new Error("Some character sets do not conform to the given maximum.");
+		}
+		if (characters.isEmpty) {
+			return this.empty;
+		}
+		return this._intern("c" + characters.toString(), id => ({ type: "Char", id, nullable: false, characters }));
+	}
+
+	concat(terms: Iterable<Term>): Term {
+		const flat: Term[] = [];
+		for (const term of terms) {
+			if (term.type === "Empty") {
+				return this.empty;
+			} else if (term.type === "Concat") {
+				flat.push(...term.terms);
+			} else if (term.type !== "Epsilon") {
+				flat.push(term);
+			}
+		}
+
+		if (flat.length === 0) {
+			return this.epsilon;
+		} else if (flat.length === 1) {
+			return flat[0];
+		}
+		return this._intern("." + flat.map(t => t.id).join(), id => ({
+			type: "Concat",
+			id,
+			nullable: flat.every(t => t.nullable),
+			terms: flat,
+		}));
+	}
+
+	union(terms: Iterable<Term>): Term {
+		const set = new Set<Term>();
+		let characters: CharSet | undefined = undefined;
+		for (const term of terms) {
+			// union terms never contain other unions, so flattening one level is enough
+			for (const t of term.type === "Union" ? term.terms : [term]) {
+				if (t.type === "Char") {
+					characters = characters === undefined ? t.characters : characters.union(t.characters);
+				} else if (t.type !== "Empty") {
+					set.add(t);
+				}
+			}
+		}
+		if (characters !== undefined) {
+			set.add(this.char(characters));
+		}
+
+		const flat = [...set].sort((a, b) => a.id - b.id);
+		if (flat.length === 0) {
+			return this.empty;
+		} else if (flat.length === 1) {
+			return flat[0];
+		}
+		return this._intern("|" + flat.map(t => t.id).join(), id => ({
+			type: "Union",
+			id,
+			nullable: flat.some(t => t.nullable),
+			terms: flat,
+		}));
+	}
+
+	repeat(term: Term, min: number, max: number): Term {
+		if (max === 0 || term.type === "Epsilon") {
+			return this.epsilon;
+		}
+		if (term.type === "Empty") {
+			return min === 0 ? this.epsilon : this.empty;
+		}
+		if (term.nullable) {
+			// r{n,m} == r{0,m} if r accepts the empty word
+			min = 0;
+		}
+		if (min === 1 && max === 1) {
+			return term;
+		}
+		if (term.type === "Repeat" && term.min === 0 && term.max === Infinity && min === 0) {
+			// (r*){0,n} == r*
+			return term;
+		}
+
+		return this._intern(`*${term.id},${min},${max}`, id => ({
+			type: "Repeat",
+			id,
+			nullable: min === 0,
+			term,
+			min,
+			max,
+		}));
+	}
+
+	fromAlternatives(alternatives: readonly Simple<Concatenation>[]): Term {
+		return this.union(alternatives.map(a => this.concat(a.elements.map(e => this.fromElement(e)))));
+	}
+	fromElement(element: Simple<Element>): Term {
+		switch (element.type) {
+			case "CharacterClass":
+				return this.char(element.characters);
+			case "Alternation":
+				return this.fromAlternatives(element.alternatives);
+			case "Quantifier":
+				return this.repeat(this.fromAlternatives(element.alternatives), element.min, element.max);
+			case "Assertion":
+				throw new Error("Assertions are not supported by the derivative construction.");
+			default:
+				throw assertNever(element);
+		}
+	}
+
+	/**
+	 * Returns the derivative of the given term with respect to the given character.
+	 */
+	derivative(term: Term, char: number): Term {
+		switch (term.type) {
+			case "Empty":
+			case "Epsilon":
+				return this.empty;
+			case "Char":
+				return term.characters.has(char) ? this.epsilon : this.empty;
+			case "Concat": {
+				const alternatives: Term[] = [];
+				for (let i = 0; i < term.terms.length; i++) {
+					const first = term.terms[i];
+					alternatives.push(this.concat([this.derivative(first, char), ...term.terms.slice(i + 1)]));
+					if (!first.nullable) {
+						break;
+					}
+				}
+				return this.union(alternatives);
+			}
+			case "Union":
+				return this.union(term.terms.map(t => this.derivative(t, char)));
+			case "Repeat": {
+				const rest = this.repeat(term.term, Math.max(0, term.min - 1), term.max - 1);
+				return this.concat([this.derivative(term.term, char), rest]);
+			}
+			default:
+				throw assertNever(term);
+		}
+	}
+
+	/**
+	 * Returns the linear form of the given term as defined by Antimirov.
+	 *
+	 * The linear form is a list of character sets and terms such that the partial derivatives of the given term with
+	 * respect to a character are all terms whose character set contains the character.
+	 */
+	linearForm(term: Term): [CharSet, Term][] {
+		switch (term.type) {
+			case "Empty":
+			case "Epsilon":
+				return [];
+			case "Char":
+				return [[term.characters, this.epsilon]];
+			case "Concat": {
+				const result: [CharSet, Term][] = [];
+				for (let i = 0; i < term.terms.length; i++) {
+					const first = term.terms[i];
+					const rest = term.terms.slice(i + 1);
+					for (const [characters, t] of this.linearForm(first)) {
+						result.push([characters, this.concat([t, ...rest])]);
+					}
+					if (!first.nullable) {
+						break;
+					}
+				}
+				return result;
+			}
+			case "Union": {
+				const result: [CharSet, Term][] = [];
+				for (const t of term.terms) {
+					result.push(...this.linearForm(t));
+				}
+				return result;
+			}
+			case "Repeat": {
+				const rest = this.repeat(term.term, Math.max(0, term.min - 1), term.max - 1);
+				return this.linearForm(term.term).map(([characters, t]) => [characters, this.concat([t, rest])]);
+			}
+			default:
+				throw assertNever(term);
+		}
+	}
+
+	/**
+	 * Adds all character sets the derivative of the given term depends on to the given set.
+	 *
+	 * All characters in the same base set (see `getBaseSets`) of these character sets have the same derivative. All
+	 * characters that are not in any of these character sets have the empty term as their derivative.
+	 */
+	derivativeClasses(term: Term, classes: Set<CharSet>): void {
+		switch (term.type) {
+			case "Empty":
+			case "Epsilon":
+				break;
+			case "Char":
+				classes.add(term.characters);
+				break;
+			case "Concat":
+				for (const t of term.terms) {
+					this.derivativeClasses(t, classes);
+					if (!t.nullable) {
+						break;
+					}
+				}
+				break;
+			case "Union":
+				term.terms.forEach(t => this.derivativeClasses(t, classes));
+				break;
+			case "Repeat":
+				this.derivativeClasses(term.term, classes);
+				break;
+			default:
+				throw assertNever(term);
+		}
+	}
+}
+
+/**
+ * Returns a lazy deterministic FA whose states are the derivatives of the given RE.
+ *
+ * The initial state is the normalized RE itself. Each state is final if its term accepts the empty word, and the
+ * transitions of a state are given by the derivatives of its term with respect to each character. Derivatives that
+ * are the empty term are not part of the transitions.
+ *
+ * Assertions are not supported and will cause an error to be thrown.
+ *
+ * @param alternatives
+ * @param maxCharacter
+ */
+export function derivativeIterator(
+	alternatives: readonly Simple<Concatenation>[],
+	maxCharacter: number
+): FAIterator<Term, ReadonlyMap<Term, CharSet>> {
+	const factory = new TermFactory(maxCharacter);
+
+	return {
+		initial: factory.fromAlternatives(alternatives),
+		getOut(term) {
+			const classes = new Set<CharSet>();
+			factory.derivativeClasses(term, classes);
+
+			const out = new Map<Term, CharSet>();
+			for (const baseSet of getBaseSets(classes)) {
+				const derivative = factory.derivative(term, baseSet.ranges[0].min);
+				if (derivative.type !== "Empty") {
+					const current = out.get(derivative);
+					out.set(derivative, current === undefined ? baseSet : current.union(baseSet));
+				}
+			}
+			return out;
+		},
+		isFinal: term => term.nullable,
+	};
+}
+
+/**
+ * Returns a lazy FA whose states are the partial derivatives of the given RE as defined by Antimirov.
+ *
+ * The initial state is the normalized RE itself. Each state is final if its term accepts the empty word, and the
+ * transitions of a state are given by its linear form.
+ *
+ * Assertions are not supported and will cause an error to be thrown.
+ *
+ * @param alternatives
+ * @param maxCharacter
+ */
+export function partialDerivativeIterator(
+	alternatives: readonly Simple<Concatenation>[],
+	maxCharacter: number
+): FAIterator<Term, ReadonlyMap<Term, CharSet>> {
+	const factory = new TermFactory(maxCharacter);
+
+	return {
+		initial: factory.fromAlternatives(alternatives),
+		getOut(term) {
+			const out = new Map<Term, CharSet>();
+			for (const [characters, to] of factory.linearForm(term)) {
+				const current = out.get(to);
+				out.set(to, current === undefined ? characters : current.union(characters));
+			}
+			return out;
+		},
+		isFinal: term => term.nullable,
+	};
+}
@@ -0,0 +1,208 @@
+import { CharRange } from "./char-set";
+import { FAIterator } from "./finite-automaton";
+
+const VERSION = 1;
+
+/**
+ * Returns the compact binary representation of the given DFA.
+ *
+ * The outgoing transitions of every state have to be sorted and disjoint character ranges. This is exactly what the
+ * entries of a `CharMap` are.
+ *
+ * All numbers are encoded as unsigned LEB128 variable-length integers. The format is:
+ *
+ * ```txt
+ * version maxCharacter stateCount state*
+ * state      := (transitionCount * 2 + isFinal) transition*
+ * transition := gap length target
+ * ```
+ *
+ * The initial state is always state `0` and states are numbered in the order in which a breadth-first search from the
+ * initial state finds them. Ranges are encoded relative to each other: `gap` is the number of characters between the
+ * current range and the previous range of the same state (or `0` for the first range) and `length` is the number of
+ * characters in the range minus 1.
+ *
+ * @param iter
+ * @param maxCharacter
+ */
+export function dfaToBytes<S>(iter: FAIterator<S, Iterable<[CharRange, S]>>, maxCharacter: number): Uint8Array {
+	const writer = new ByteWriter();
+
+	const index = new Map<S, number>([[iter.initial, 0]]);
+	const states: S[] = [iter.initial];
+	const transitions: [CharRange, number][][] = [];
+
+	for (let i = 0; i < states.length; i++) {
+		const out: [CharRange, number][] = [];
+		for (const [range, to] of iter.getOut(states[i])) {
+			let toIndex = index.get(to);
+			if (toIndex === undefined) {
+				toIndex = states.length;
+				index.set(to, toIndex);
+				states.push(to);
+			}
+			out.push([range, toIndex]);
+		}
+		transitions.push(out);
+	}
+
+	writer.write(VERSION);
+	writer.write(maxCharacter);
+	writer.write(states.length);
+	states.forEach((state, i) => {
+		const out = transitions[i];
+		writer.write(out.length * 2 + (iter.isFinal(state) ? 1 : 0));
+
+		let nextMin = 0;
+		for (const [{ min, max }, to] of out) {
+			if (min < nextMin) {
+				throw new Error("The ranges of outgoing transitions have to be sorted and disjoint.");
+			}
+			writer.write(min - nextMin);
+			writer.write(max - min);
+			writer.write(to);
+			nextMin = max + 1;
+		}
+	});
+
+	return writer.toBytes();
+}
+
+export interface ParsedDFABytes {
+	readonly maxCharacter: number;
+	/**
+	 * The initial state is state `0`.
+	 */
+	readonly stateCount: number;
+	readonly finals: ReadonlySet<number>;
+	/**
+	 * The sorted and disjoint outgoing transitions of each state.
+	 */
+	readonly transitions: readonly (readonly [CharRange, number])[][];
+}
+
+/**
+ * Parses the given binary representation of a DFA created by `dfaToBytes`.
+ *
+ * If the given bytes are not a valid binary representation, an error will be thrown. The number of states and
+ * transitions are validated against the length of the given bytes before any of them are created.
+ *
+ * @param bytes
+ */
+export function parseDFABytes(bytes: Uint8Array): ParsedDFABytes {
+	const reader = new ByteReader(bytes);
+
+	const version = reader.read();
+	if (version !== VERSION) {
+		throw new Error(
+			`Invalid DFA binary data: Unsupported version ${version}. Only version ${VERSION} is supported.`
+		);
+	}
+	const maxCharacter = reader.read();
+	const stateCount = reader.read();
+	if (stateCount === 0) {
+		throw new Error("Invalid DFA binary data: The number of states has to be positive.");
+	}
+	// every state takes at least one byte
+	if (stateCount > reader.remaining) {
+		throw new Error(`Invalid DFA binary data: ${stateCount} states don't fit into the remaining data.`);
+	}
+
+	const finals = new Set<number>();
+	const transitions: [CharRange, number][][] = [];
+	for (let state = 0; state < stateCount; state++) {
+		const header = reader.read();
+		if (header % 2 === 1) {
+			finals.add(state);
+		}
+
+		// every transition takes at least three bytes and every remaining state at least one
+		const transitionCount = Math.floor(header / 2);
+		if (transitionCount * 3 + (stateCount - state - 1) > reader.remaining) {
+			throw new Error(
+				`Invalid DFA binary data: ${transitionCount} transitions of state ${state} don't fit into the remaining data.`
+			);
+		}
+
+		const out: [CharRange, number][] = [];
+		let nextMin = 0;
+		for (let i = transitionCount; i > 0; i--) {
+			const min = nextMin + reader.read();
+			const max = min + reader.read();
+			const to = reader.read();
+			if (max > maxCharacter) {
+				throw new Error("Invalid DFA binary data: A range is greater than the maximum character.");
+			}
+			if (to >= stateCount) {
+				throw new Error(`Invalid DFA binary data: ${to} is not a valid state.`);
+			}
+			out.push([{ min, max }, to]);
+			nextMin = max + 1;
+		}
+		transitions.push(out);
+	}
+
+	if (!reader.done) {
+		throw new Error("Invalid DFA binary data: Unexpected trailing bytes.");
+	}
+
+	return { maxCharacter, stateCount, finals, transitions };
+}
+
+class ByteWriter {
+	private _bytes: number[] = [];
+
+	write(value: number): void {
+		if (!Number.isSafeInteger(value) || value < 0) {
+			throw new Error(`Cannot encode ${value}.`);
+		}
+		while (value >= 0x80) {
+			this._bytes.push(value % 0x80 | 0x80);
+			value = Math.floor(value / 0x80);
+		}
+		this._bytes.push(value);
+	}
+
+	toBytes(): Uint8Array {
+		return Uint8Array.from(this._bytes);
+	}
+}
+
+class ByteReader {
+	private _index = 0;
+	private readonly _bytes: Uint8Array;
+
+	constructor(bytes: Uint8Array) {
+		this._bytes = bytes;
+	}
+
+	get done(): boolean {
+		return this._index >= this._bytes.length;
+	}
+
+	/**
+	 * The number of bytes that haven't been read yet.
+	 */
+	get remaining(): number {
+		return this._bytes.length - this._index;
+	}
+
+	read(): number {
+		let value = 0;
+		let factor = 1;
+		for (;;) {
+			if (this._index >= this._bytes.length) {
+				throw new Error("Invalid DFA binary data: Unexpected end of data.");
+			}
+			const byte = this._bytes[this._index++];
+			value += (byte & 0x7f) * factor;
+			if (byte < 0x80) {
+				return value;
+			}
+			factor *= 0x80;
+			if (factor > Number.MAX_SAFE_INTEGER) {
+				throw new Error("Invalid DFA binary data: Number too large.");
+			}
+		}
+	}
+}
@@ -1,4 +1,4 @@
-import { withoutSet, firstOf, intersectSet, cachedFunc, filterMut, traverse } from "./util";
+import { withoutSet, firstOf, intersectSet, cachedFunc, filterMut, traverse, seededRandom } from "./util";
 import {
 	FAIterator,
 	FiniteAutomaton,
@@ -7,6 +7,15 @@ import {
 	ToRegexOptions,
 	TransitionIterable,
 	TransitionIterableFA,
+	EquivalenceResult,
+	Diagnosis,
+	SubsetResult,
+	WordLengthSet,
+	WordLengthsOptions,
+	ToDotOptions,
+	ToMermaidOptions,
+	ToGraphMLOptions,
+	FAJSON,
 } from "./finite-automaton";
 import { CharMap, ReadonlyCharMap } from "./char-map";
 import { CharRange, CharSet } from "./char-set";
@@ -16,13 +25,32 @@ import {
 	faCanReachFinal,
 	faEnsurePureOut,
 	faLanguageIsFinite,
+	faCountWords,
+	faMinWordLength,
+	faMaxWordLength,
+	faWordLengths,
+	faSampleWords,
 	faMapOut,
 	faTraverse,
 } from "./fa-iterator";
-import { faIterateWordSets, wordSetsToWords, faWithCharSetsToString } from "./fa-util";
-import { Simple, Expression } from "./ast";
+import {
+	faIterateWordSets,
+	faDiagnose,
+	wordSetsToWords,
+	faWithCharSetsToString,
+	faExport,
+	dotExporter,
+	mermaidExporter,
+	graphMLExporter,
+} from "./fa-util";
+import { Simple, Expression, Concatenation } from "./ast";
 import { faToRegex } from "./to-regex";
-import { lazyIntersection, TransitionMapBuilder } from "./intersection";
+import { jsonExporter, parseFAJSON } from "./fa-json";
+import { dfaToBytes, parseDFABytes } from "./dfa-binary";
+import { lazyIntersection, leftQuotientStates, rightQuotientStates, TransitionMapBuilder } from "./intersection";
+import { faIsEquivalentTo, faIsSubsetOf } from "./equivalence";
+import { pickMostReadableWord } from "./words";
+import { derivativeIterator } from "./derivative";
 
 const DEFAULT_MAX_NODES = 10_000;
 
@@ -45,6 +73,67 @@ export interface ReadonlyDFA extends TransitionIterableFA {
 	 * @param other
 	 */
 	structurallyEqual(other: ReadonlyDFA): boolean;
+
+	/**
+	 * Returns words drawn uniformly at random from all words accepted by this DFA with a length within the given
+	 * bounds.
+	 *
+	 * Each returned word is drawn independently, so the returned words may contain duplicates. If this DFA doesn't
+	 * accept any words within the given bounds, an empty array will be returned.
+	 *
+	 * @param options
+	 */
+	sampleWords(options?: Readonly<DFA.SampleWordsOptions>): number[][];
+
+	/**
+	 * Returns a compact binary representation of this DFA.
+	 *
+	 * The binary representation is usually a lot smaller than the JSON representation and can be loaded faster using
+	 * `DFA.fromBytes`. To create the smallest representation, the DFA should be minimized first.
+	 */
+	toBytes(): Uint8Array;
+
+	/**
+	 * Returns whether the given word is a prefix of some word accepted by this DFA.
+	 *
+	 * This is equivalent to testing the word against a copy of this DFA on which `prefixes` was called but doesn't
+	 * modify or copy this DFA.
+	 *
+	 * @param word
+	 */
+	isViablePrefix(word: Iterable<number>): boolean;
+	/**
+	 * Returns the set of all characters `c` such that the given word followed by `c` is a viable prefix (see
+	 * `isViablePrefix`).
+	 *
+	 * If the given word itself is not a viable prefix, the empty set will be returned. Otherwise, this is the `expected`
+	 * set returned by `diagnose`.
+	 *
+	 * @param word
+	 */
+	viableContinuations(word: Iterable<number>): CharSet;
+
+	/**
+	 * Returns the word sets of the shortest continuations of the given prefix.
+	 *
+	 * A continuation is a word `w` such that the given prefix followed by `w` is accepted by this DFA. The returned word
+	 * sets are disjoint and sorted by length (shortest first). If the given prefix is accepted by this DFA, the first
+	 * word set will be the empty word set.
+	 *
+	 * @param prefix
+	 * @param options
+	 */
+	completions(prefix: Iterable<number>, options?: Readonly<DFA.CompletionsOptions>): CharSet[][];
+	/**
+	 * Returns the shortest continuations of the given prefix.
+	 *
+	 * This is equivalent to picking the most readable word (see `pickMostReadableWord`) of every word set returned by
+	 * `completions`.
+	 *
+	 * @param prefix
+	 * @param options
+	 */
+	completionWords(prefix: Iterable<number>, options?: Readonly<DFA.CompletionsOptions>): number[][];
 }
 export class DFA implements ReadonlyDFA {
 	readonly nodes: DFA.NodeList;
@@ -66,6 +155,20 @@ export class DFA implements ReadonlyDFA {
 		return faLanguageIsFinite(this.stateIterator());
 	}
 
+	get minWordLength(): number | undefined {
+		return faMinWordLength(this.stateIterator());
+	}
+	get maxWordLength(): number | undefined {
+		return faMaxWordLength(this.stateIterator());
+	}
+	wordLengths(options?: Readonly<WordLengthsOptions>): WordLengthSet {
+		return faWordLengths(this.stateIterator(), options?.maxNodes ?? DEFAULT_MAX_NODES);
+	}
+
+	countWords(minLength?: number, maxLength?: number): bigint {
+		return faCountWords(this.transitionIterator(), minLength ?? 0, maxLength ?? minLength ?? Infinity);
+	}
+
 	stateIterator(): FAIterator<DFA.ReadonlyNode> {
 		return iterStates(this.nodes);
 	}
@@ -95,6 +198,49 @@ export class DFA implements ReadonlyDFA {
 		return this.nodes.finals.has(current);
 	}
 
+	isViablePrefix(word: Iterable<number>): boolean {
+		const { accepted, incomplete } = this.diagnose(word);
+		return accepted || incomplete;
+	}
+
+	viableContinuations(word: Iterable<number>): CharSet {
+		const { accepted, incomplete, expected } = this.diagnose(word);
+		return accepted || incomplete ? expected : CharSet.empty(this.maxCharacter);
+	}
+
+	completions(prefix: Iterable<number>, options?: Readonly<DFA.CompletionsOptions>): CharSet[][] {
+		const limit = options?.limit ?? 10;
+		const maxLength = options?.maxLength ?? Infinity;
+
+		const word = [...prefix];
+		if (limit <= 0 || !this.isViablePrefix(word)) {
+			return [];
+		}
+		const node = walk(this.nodes, word)!;
+
+		const result: CharSet[][] = [];
+		const iter = this.transitionIterator();
+		// word sets are iterated in order of increasing length
+		for (const wordSet of faIterateWordSets({ ...iter, initial: node })) {
+			if (wordSet.length > maxLength) {
+				break;
+			}
+			result.push(wordSet);
+			if (result.length >= limit) {
+				break;
+			}
+		}
+		return result;
+	}
+
+	completionWords(prefix: Iterable<number>, options?: Readonly<DFA.CompletionsOptions>): number[][] {
+		return this.completions(prefix, options).map(wordSet => pickMostReadableWord(wordSet)!);
+	}
+
+	diagnose(word: Iterable<number>): Diagnosis {
+		return faDiagnose(this.transitionIterator(), word, this.maxCharacter);
+	}
+
 	wordSets(): Iterable<CharSet[]> {
 		if (this.isEmpty) {
 			return [];
@@ -107,10 +253,52 @@ export class DFA implements ReadonlyDFA {
 		return wordSetsToWords(this.wordSets());
 	}
 
+	sampleWords(options?: Readonly<DFA.SampleWordsOptions>): number[][] {
+		if (options?.length !== undefined && (options.minLength !== undefined || options.maxLength !== undefined)) {
+			throw new RangeError("The exact length cannot be combined with a minimum or maximum length.");
+		}
+
+		let rng = options?.rng;
+		if (rng === undefined) {
+			rng = options?.seed === undefined ? Math.random : seededRandom(options.seed);
+		}
+
+		return faSampleWords(
+			this.transitionIterator(),
+			options?.length ?? options?.minLength ?? 0,
+			options?.length ?? options?.maxLength ?? Infinity,
+			options?.count ?? 1,
+			rng
+		);
+	}
+
 	toString(): string {
 		return faWithCharSetsToString(this.transitionIterator());
 	}
 
+	toDot(options?: Readonly<ToDotOptions>): string {
+		return faExport(this.transitionIterator(), dotExporter(options));
+	}
+	toMermaid(options?: Readonly<ToMermaidOptions>): string {
+		return faExport(this.transitionIterator(), mermaidExporter(options));
+	}
+	toGraphML(options?: Readonly<ToGraphMLOptions>): string {
+		return faExport(this.transitionIterator(), graphMLExporter(options));
+	}
+	toJSON(): FAJSON {
+		return faExport(this.transitionIterator(), jsonExporter(this.maxCharacter));
+	}
+	toBytes(): Uint8Array {
+		return dfaToBytes(
+			{
+				initial: this.nodes.initial,
+				getOut: n => n.out,
+				isFinal: n => this.nodes.finals.has(n),
+			},
+			this.maxCharacter
+		);
+	}
+
 	toRegex(options?: Readonly<ToRegexOptions>): Simple<Expression> {
 		return faToRegex(this.transitionIterator(), options);
 	}
@@ -143,6 +331,16 @@ export class DFA implements ReadonlyDFA {
 		return wordSetsToWords(this.intersectionWordSets(other, options));
 	}
 
+	isEquivalentTo(other: TransitionIterable, options?: Readonly<IntersectionOptions>): EquivalenceResult {
+		checkCompatibility(this, other);
+		return faIsEquivalentTo(this.transitionIterator(), other.transitionIterator(), w => this.test(w), options);
+	}
+
+	isSubsetOf(other: TransitionIterable, options?: Readonly<IntersectionOptions>): SubsetResult {
+		checkCompatibility(this, other);
+		return faIsSubsetOf(this.transitionIterator(), other.transitionIterator(), options);
+	}
+
 	copy(): DFA {
 		const newNodeList = new DFA.NodeList();
 		copyTo(this.nodes, newNodeList);
@@ -289,6 +487,76 @@ export class DFA implements ReadonlyDFA {
 		}
 	}
 
+	/**
+	 * Modifies this DFA such that all infixes (substrings) of all accepted words are also accepted.
+	 *
+	 * If the language of this DFA is empty, then it will remain empty.
+	 *
+	 * Accepting all suffixes requires the subset method, so this operation may create `O(2^n)` many nodes.
+	 *
+	 * Unreachable states will be removed by this operation.
+	 *
+	 * @param creationOptions
+	 */
+	infixes(creationOptions?: Readonly<DFA.CreationOptions>): void {
+		this.nodes.removeUnreachable();
+
+		if (this.isEmpty) {
+			return;
+		}
+
+		// all suffixes are the words accepted by starting in any state
+		startInAll(this.nodes, this.maxCharacter, [...this.nodes], creationOptions);
+		this.prefixes();
+	}
+
+	/**
+	 * Modifies this DFA to accept the left quotient of this DFA by the given FA.
+	 *
+	 * The left quotient is the set of all words `w` for which there is a word `u` accepted by the given FA such that
+	 * `uw` is accepted by this DFA. In other words, all prefixes accepted by the given FA will be removed from the
+	 * words of this DFA.
+	 *
+	 * The left quotient is constructed using the subset method, so this operation may create `O(2^n)` many nodes. The
+	 * `maxNodes` option applies to both the product with the given FA and the subset construction.
+	 *
+	 * Unreachable states will be removed by this operation.
+	 *
+	 * @param by
+	 * @param options
+	 */
+	leftQuotient(by: TransitionIterable, options?: Readonly<IntersectionOptions>): void {
+		checkCompatibility(this, by);
+
+		const starts = leftQuotientStates(this.transitionIterator(), by.transitionIterator(), options);
+		startInAll(this.nodes, this.maxCharacter, starts, options);
+	}
+
+	/**
+	 * Modifies this DFA to accept the right quotient of this DFA by the given FA.
+	 *
+	 * The right quotient is the set of all words `w` for which there is a word `u` accepted by the given FA such that
+	 * `wu` is accepted by this DFA. In other words, all suffixes accepted by the given FA will be removed from the
+	 * words of this DFA.
+	 *
+	 * Unreachable states will be removed by this operation.
+	 *
+	 * @param by
+	 * @param options
+	 */
+	rightQuotient(by: TransitionIterable, options?: Readonly<IntersectionOptions>): void {
+		checkCompatibility(this, by);
+
+		const finals = rightQuotientStates(
+			iterTransitionsMut(this.nodes, this.maxCharacter),
+			by.transitionIterator(),
+			options
+		);
+		this.nodes.finals.clear();
+		finals.forEach(f => this.nodes.finals.add(f));
+		this.nodes.removeUnreachable();
+	}
+
 	/**
 	 * Returns a new DFA which is equivalent to the intersection of the two given FA.
 	 *
@@ -317,6 +585,46 @@ export class DFA implements ReadonlyDFA {
 		return new DFA(nodeList, left.maxCharacter);
 	}
 
+	/**
+	 * Returns a new DFA which is equivalent to the union of the two given DFA.
+	 *
+	 * @param left
+	 * @param right
+	 * @param creationOptions
+	 */
+	static fromUnion(left: ReadonlyDFA, right: ReadonlyDFA, creationOptions?: Readonly<DFA.CreationOptions>): DFA {
+		const nodeList = createProductNodeList(left, right, (l, r) => l || r, creationOptions);
+		return new DFA(nodeList, left.maxCharacter);
+	}
+
+	/**
+	 * Returns a new DFA which accepts all words accepted by the left DFA but not by the right DFA.
+	 *
+	 * @param left
+	 * @param right
+	 * @param creationOptions
+	 */
+	static fromDifference(left: ReadonlyDFA, right: ReadonlyDFA, creationOptions?: Readonly<DFA.CreationOptions>): DFA {
+		const nodeList = createProductNodeList(left, right, (l, r) => l && !r, creationOptions);
+		return new DFA(nodeList, left.maxCharacter);
+	}
+
+	/**
+	 * Returns a new DFA which accepts all words accepted by exactly one of the two given DFA.
+	 *
+	 * @param left
+	 * @param right
+	 * @param creationOptions
+	 */
+	static fromSymmetricDifference(
+		left: ReadonlyDFA,
+		right: ReadonlyDFA,
+		creationOptions?: Readonly<DFA.CreationOptions>
+	): DFA {
+		const nodeList = createProductNodeList(left, right, (l, r) => l !== r, creationOptions);
+		return new DFA(nodeList, left.maxCharacter);
+	}
+
 	/**
 	 * Creates a new DFA which matches no words. The language of the returned DFA is empty.
 	 *
@@ -347,6 +655,70 @@ export class DFA implements ReadonlyDFA {
 		return new DFA(nodeList, maxCharacter);
 	}
 
+	/**
+	 * Creates a new DFA for the given RE using Brzozowski derivatives.
+	 *
+	 * Unlike `DFA.fromFA(NFA.fromRegex(...))`, this does not create an intermediate NFA. Every state of the returned
+	 * DFA is a derivative of the given RE, and derivatives are normalized such that similar derivatives are the same
+	 * state. The returned DFA is usually small, but it is not guaranteed to be minimal.
+	 *
+	 * Assertions are not supported and will cause an error to be thrown.
+	 *
+	 * @param concat
+	 * @param options
+	 * @param creationOptions
+	 */
+	static fromRegex(
+		concat: Simple<Concatenation>,
+		options: Readonly<DFA.Options>,
+		creationOptions?: Readonly<DFA.CreationOptions>
+	): DFA;
+	static fromRegex(
+		expression: Simple<Expression>,
+		options: Readonly<DFA.Options>,
+		creationOptions?: Readonly<DFA.CreationOptions>
+	): DFA;
+	static fromRegex(
+		alternatives: readonly Simple<Concatenation>[],
+		options: Readonly<DFA.Options>,
+		creationOptions?: Readonly<DFA.CreationOptions>
+	): DFA;
+	static fromRegex(
+		value: Simple<Concatenation> | Simple<Expression> | readonly Simple<Concatenation>[],
+		options: Readonly<DFA.Options>,
+		creationOptions?: Readonly<DFA.CreationOptions>
+	): DFA {
+		let alternatives: readonly Simple<Concatenation>[];
+		if (Array.isArray(value)) {
+			alternatives = value as readonly Simple<Concatenation>[];
+		} else {
+			const node = value as Simple<Expression> | Simple<Concatenation>;
+			alternatives = node.type === "Concatenation" ? [node] : node.alternatives;
+		}
+
+		const { maxCharacter } = options;
+		const iter = derivativeIterator(alternatives, maxCharacter);
+
+		const nodeList = nodeListWithLimit(creationOptions?.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
+			const translate = cachedFunc<typeof iter.initial, DFA.Node>(() => nodeList.createNode());
+			translate.cache.set(iter.initial, nodeList.initial);
+
+			traverse(iter.initial, term => {
+				const node = translate(term);
+
+				if (iter.isFinal(term)) {
+					nodeList.finals.add(node);
+				}
+
+				const out = iter.getOut(term);
+				out.forEach((charSet, to) => nodeList._uncheckedLinkNodesWithCharSet(node, translate(to), charSet));
+				return out.keys();
+			});
+		});
+
+		return new DFA(nodeList, maxCharacter);
+	}
+
 	static fromWords(
 		words: Iterable<Iterable<number>>,
 		options: Readonly<DFA.Options>,
@@ -395,6 +767,67 @@ export class DFA implements ReadonlyDFA {
 		}
 	}
 
+	/**
+	 * Creates a new DFA from the given JSON representation.
+	 *
+	 * If the given value is not a valid JSON representation of a DFA, an error will be thrown. The represented FA has
+	 * to be deterministic.
+	 *
+	 * @param json
+	 * @param creationOptions
+	 */
+	static fromJSON(json: Readonly<FAJSON>, creationOptions?: Readonly<DFA.CreationOptions>): DFA {
+		const { maxCharacter, iter } = parseFAJSON(json, true);
+
+		const nodeList = nodeListWithLimit(creationOptions?.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
+			const translate = cachedFunc<number, DFA.Node>(() => nodeList.createNode());
+			translate.cache.set(iter.initial, nodeList.initial);
+
+			traverse(iter.initial, node => {
+				const transNode = translate(node);
+
+				if (iter.isFinal(node)) {
+					nodeList.finals.add(transNode);
+				}
+
+				const out = iter.getOut(node);
+				out.forEach((charSet, outNode) => nodeList.linkNodes(transNode, translate(outNode), charSet));
+				return out.keys();
+			});
+		});
+
+		return new DFA(nodeList, maxCharacter);
+	}
+
+	/**
+	 * Creates a new DFA from the given binary representation created by `toBytes`.
+	 *
+	 * If the given bytes are not a valid binary representation of a DFA, an error will be thrown.
+	 *
+	 * @param bytes
+	 * @param creationOptions
+	 */
+	static fromBytes(bytes: Uint8Array, creationOptions?: Readonly<DFA.CreationOptions>): DFA {
+		const { maxCharacter, stateCount, finals, transitions } = parseDFABytes(bytes);
+
+		const nodeList = nodeListWithLimit(creationOptions?.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
+			const nodes: DFA.Node[] = [nodeList.initial];
+			for (let i = 1; i < stateCount; i++) {
+				nodes.push(nodeList.createNode());
+			}
+
+			finals.forEach(f => nodeList.finals.add(nodes[f]));
+			transitions.forEach((out, from) => {
+				for (const [range, to] of out) {
+					nodeList.linkNodes(nodes[from], nodes[to], range);
+				}
+			});
+		});
+		nodeList.removeUnreachable();
+
+		return new DFA(nodeList, maxCharacter);
+	}
+
 	static fromTransitionIterator<InputNode>(
 		iter: FAIterator<InputNode, ReadonlyMap<InputNode, CharSet>>,
 		options: Readonly<DFA.Options>,
@@ -603,36 +1036,34 @@ export namespace DFA {
 			 *
 			 * 1) Not reachable from the initial state.
 			 * 2) Cannot reach a final state.
-			 *
-			 * (For condition 1, we just have to check the final states.)
 			 */
 
-			const alive = new Set<Node>();
-
-			const walked = new Set<Node>();
-			const walk = (node: Node): void => {
-				if (walked.has(node)) return;
-				walked.add(node);
-
-				// walk all out node
-				const out = new Set<Node>();
-				node.out.forEach(node => out.add(node));
-				out.forEach(n => walk(n));
-
-				if (this.finals.has(node)) {
-					// if it's final, it satisfies both conditions
-					alive.add(node);
-				} else {
-					// if at least one out node is alive, this node it too
-					for (const outNode of out) {
-						if (alive.has(outNode)) {
-							alive.add(node);
-							break;
-						}
+			// all nodes reachable from the initial state and their incoming transitions
+			const incoming = new Map<Node, Node[]>();
+			traverse(this.initial, node => {
+				const out = new Set<Node>(node.out.values());
+				incoming.set(node, incoming.get(node) ?? []);
+				out.forEach(outNode => {
+					let list = incoming.get(outNode);
+					if (list === undefined) {
+						list = [];
+						incoming.set(outNode, list);
 					}
+					list.push(node);
+				});
+				return out;
+			});
+
+			// all reachable nodes which can reach a final state
+			const alive = new Set<Node>();
+			for (const finalNode of this.finals) {
+				if (incoming.has(finalNode)) {
+					traverse(finalNode, node => {
+						alive.add(node);
+						return incoming.get(node)!;
+					});
 				}
-			};
-			walk(this.initial);
+			}
 
 			// remove dead finals
 			for (const finalNode of this.finals) {
@@ -641,8 +1072,9 @@ export namespace DFA {
 				}
 			}
 
-			// remove dead nodes reachable from the initial state
-			function removeDead(node: Node): void {
+			// remove all transitions to dead nodes
+			alive.add(this.initial);
+			for (const node of alive) {
 				const toRemove: CharRange[] = [];
 				for (const [range, outNode] of node.out) {
 					if (!alive.has(outNode)) {
@@ -651,7 +1083,6 @@ export namespace DFA {
 				}
 				toRemove.forEach(n => node.out.deleteEvery(n));
 			}
-			removeDead(this.initial);
 		}
 
 		count(): number {
@@ -707,6 +1138,62 @@ export namespace DFA {
 		 */
 		maxCharacter: number;
 	}
+	export interface CompletionsOptions {
+		/**
+		 * The maximum number of returned completions.
+		 *
+		 * Defaults to `10`.
+		 */
+		limit?: number;
+		/**
+		 * The maximum length (inclusive) of the returned completions.
+		 *
+		 * Defaults to `Infinity`.
+		 */
+		maxLength?: number;
+	}
+	export interface SampleWordsOptions {
+		/**
+		 * The exact length of the sampled words.
+		 *
+		 * This cannot be combined with `minLength` or `maxLength`.
+		 */
+		length?: number;
+		/**
+		 * The minimum length (inclusive) of the sampled words.
+		 *
+		 * Defaults to `0`.
+		 */
+		minLength?: number;
+		/**
+		 * The maximum length (inclusive) of the sampled words.
+		 *
+		 * If the maximum length is `Infinity`, the language of the DFA has to be finite.
+		 *
+		 * Defaults to `Infinity`.
+		 */
+		maxLength?: number;
+		/**
+		 * The number of words to sample.
+		 *
+		 * Defaults to `1`.
+		 */
+		count?: number;
+		/**
+		 * A function returning a random number in the interval `[0, 1)`.
+		 *
+		 * By default, a pseudo-random number generator for the given `seed` will be used. If no seed is given,
+		 * `Math.random` will be used.
+		 */
+		rng?: () => number;
+		/**
+		 * The seed of the default pseudo-random number generator. The same seed will always produce the same words for
+		 * the same DFA.
+		 *
+		 * This will be ignored if `rng` is set.
+		 */
+		seed?: number;
+	}
 }
 
 /**
@@ -726,6 +1213,154 @@ function nodeListWithLimit(maxNodes: number, consumerFn: (nodeList: DFA.NodeList
 	return nodeList;
 }
 
+interface ProductPair {
+	readonly left: DFA.ReadonlyNode | undefined;
+	readonly right: DFA.ReadonlyNode | undefined;
+}
+
+/**
+ * Returns the node list of the product DFA of the two given DFA.
+ *
+ * The states of the product DFA are pairs of states of the given DFA where `undefined` represents the implicit trap
+ * state. A state is final if the given function returns `true` for the finality of its two states.
+ *
+ * If no pair with the trap state on the left can be final (e.g. for the difference), these pairs will not be created.
+ *
+ * @param left
+ * @param right
+ * @param isFinal
+ * @param creationOptions
+ */
+function createProductNodeList(
+	left: ReadonlyDFA,
+	right: ReadonlyDFA,
+	isFinal: (left: boolean, right: boolean) => boolean,
+	creationOptions: Readonly<DFA.CreationOptions> | undefined
+): DFA.NodeList {
+	checkCompatibility(left, right);
+
+	const leftTrapIsTrap = !isFinal(false, false) && !isFinal(false, true);
+
+	return nodeListWithLimit(creationOptions?.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
+		const ids = new Map<DFA.ReadonlyNode | undefined, number>([[undefined, 0]]);
+		const getId = (node: DFA.ReadonlyNode | undefined): number => {
+			let id = ids.get(node);
+			if (id === undefined) {
+				id = ids.size;
+				ids.set(node, id);
+			}
+			return id;
+		};
+		// pairs have to be unique, so that the char maps will merge adjacent ranges of the same pair
+		const pairs = new Map<string, ProductPair>();
+		const getPair = (l: DFA.ReadonlyNode | undefined, r: DFA.ReadonlyNode | undefined): ProductPair => {
+			const key = `${getId(l)},${getId(r)}`;
+			let pair = pairs.get(key);
+			if (pair === undefined) {
+				pair = { left: l, right: r };
+				pairs.set(key, pair);
+			}
+			return pair;
+		};
+
+		const initial = getPair(left.nodes.initial, right.nodes.initial);
+		const translate = cachedFunc<ProductPair, DFA.Node>(() => nodeList.createNode());
+		translate.cache.set(initial, nodeList.initial);
+
+		traverse(initial, pair => {
+			const node = translate(pair);
+
+			const leftFinal = pair.left !== undefined && left.nodes.finals.has(pair.left);
+			const rightFinal = pair.right !== undefined && right.nodes.finals.has(pair.right);
+			if (isFinal(leftFinal, rightFinal)) {
+				nodeList.finals.add(node);
+			}
+
+			const out = new CharMap<ProductPair>();
+			pair.left?.out.forEach((l, range) => out.setEvery(range, getPair(l, undefined)));
+			pair.right?.out.forEach((r, range) =>
+				out.mapRange(range, p => (p === undefined && leftTrapIsTrap ? undefined : getPair(p?.left, r)))
+			);
+
+			const next: ProductPair[] = [];
+			out.forEach((to, range) => {
+				nodeList._uncheckedLinkNodesWithCharRange(node, translate(to), range);
+				next.push(to);
+			});
+			return next;
+		});
+
+		// pairs that cannot reach a final state are trap states
+		nodeList.removeUnreachable();
+	});
+}
+
+/**
+ * Changes the given node list such that it accepts all words accepted by any of the given start states.
+ *
+ * This uses the subset method to create a new DFA. Unreachable states will be removed.
+ *
+ * @param nodeList
+ * @param maxCharacter
+ * @param starts
+ * @param creationOptions
+ */
+function startInAll(
+	nodeList: DFA.NodeList,
+	maxCharacter: number,
+	starts: Iterable<DFA.ReadonlyNode>,
+	creationOptions: Readonly<DFA.CreationOptions> | undefined
+): void {
+	const startNodes = [...starts];
+	const finals: ReadonlySet<DFA.ReadonlyNode> = nodeList.finals;
+	const getOut = (node: DFA.ReadonlyNode): ReadonlyMap<DFA.ReadonlyNode, CharSet> =>
+		invertCharMap(node.out, maxCharacter);
+
+	// a new initial state that is in all start states at once
+	const initial: DFA.ReadonlyNode | null = null;
+	const initialOut = new Map<DFA.ReadonlyNode, CharSet>();
+	for (const start of startNodes) {
+		getOut(start).forEach((characters, to) => {
+			const current = initialOut.get(to);
+			initialOut.set(to, current === undefined ? characters : current.union(characters));
+		});
+	}
+	const initialIsFinal = startNodes.some(n => finals.has(n));
+
+	const dfa = DFA.fromTransitionIterator<DFA.ReadonlyNode | null>(
+		{
+			initial,
+			getOut: n => (n === null ? initialOut : getOut(n)),
+			isFinal: n => (n === null ? initialIsFinal : finals.has(n)),
+		},
+		{ maxCharacter },
+		creationOptions
+	);
+
+	nodeList.initial.out.deleteEvery({ min: 0, max: maxCharacter });
+	nodeList.finals.clear();
+	copyTo(dfa.nodes, nodeList);
+	nodeList.removeUnreachable();
+}
+
+/**
+ * Returns the node reached by reading the given word or `undefined` if the word leads into the implicit trap state.
+ *
+ * @param nodeList
+ * @param word
+ */
+function walk(nodeList: DFA.ReadonlyNodeList, word: Iterable<number>): DFA.ReadonlyNode | undefined {
+	let current = nodeList.initial;
+	for (const char of word) {
+		const next = current.out.get(char);
+		if (next === undefined) {
+			return undefined;
+		}
+		current = next;
+	}
+	return current;
+}
+
 function checkCompatibility(a: FiniteAutomaton | TransitionIterable, b: FiniteAutomaton | TransitionIterable): void {
 	if (a.maxCharacter !== b.maxCharacter) {
 		throw new RangeError("Both NFAs have to have the same max character.");
@@ -743,6 +1378,16 @@ function iterStates(list: DFA.ReadonlyNodeList): FAIterator<DFA.ReadonlyNode> {
 		isFinal: n => list.finals.has(n),
 	};
 }
+function iterTransitionsMut(
+	list: DFA.NodeList,
+	maxCharacter: number
+): FAIterator<DFA.Node, ReadonlyMap<DFA.Node, CharSet>> {
+	return {
+		initial: list.initial,
+		getOut: n => invertCharMap(n.out, maxCharacter),
+		isFinal: n => list.finals.has(n),
+	};
+}
 function iterStatesMut(list: DFA.NodeList): FAIterator<DFA.Node> {
 	return {
 		initial: list.initial,
@@ -0,0 +1,175 @@
+import { CharSet } from "./char-set";
+import { faEnsurePureOut, faIterateStates, faMapOut } from "./fa-iterator";
+import { FAIterator } from "./finite-automaton";
+import { assertNever } from "./util";
+
+/**
+ * A state of the edit distance automaton.
+ *
+ * Base states are pairs of a state of the original FA and the number of edits made so far. Transposition states are
+ * the intermediate states of a transposition of the two characters read from `from` via `via` to `to`.
+ */
+export type EditState = InitialEditState | BaseEditState | TranspositionEditState;
+
+interface InitialEditState {
+	readonly type: "Initial";
+}
+interface BaseEditState {
+	readonly type: "Base";
+	readonly state: number;
+	readonly edits: number;
+}
+interface TranspositionEditState {
+	readonly type: "Transposition";
+	readonly from: number;
+	readonly via: number;
+	readonly to: number;
+	readonly edits: number;
+}
+
+/**
+ * Returns a lazy FA that accepts all words within the given edit distance of the words accepted by the given FA.
+ *
+ * The edit distance is the Levenshtein distance, meaning that insertions, deletions, and substitutions of single
+ * characters are counted as one edit each. If `transpositions` is `true`, swapping two adjacent characters will also
+ * count as one edit (optimal string alignment distance).
+ *
+ * Deletions correspond to epsilon transitions which are removed by computing the epsilon closure of every state. The
+ * initial state of the returned FA doesn't have any incoming transitions.
+ *
+ * @param iter
+ * @param distance
+ * @param transpositions
+ * @param maxCharacter
+ */
+export function editDistanceIterator<S>(
+	iter: FAIterator<S, ReadonlyMap<S, CharSet>>,
+	distance: number,
+	transpositions: boolean,
+	maxCharacter: number
+): FAIterator<EditState, ReadonlyMap<EditState, CharSet>> {
+	iter = faEnsurePureOut(iter);
+
+	const states: S[] = [...faIterateStates(faMapOut(iter, out => out.keys()))];
+	const indexes = new Map<S, number>(states.map((s, i) => [s, i]));
+	const out: (readonly [number, CharSet])[][] = states.map(s =>
+		[...iter.getOut(s)].map(([to, characters]) => [indexes.get(to)!, characters] as const)
+	);
+	const isFinal: boolean[] = states.map(s => iter.isFinal(s));
+	const all = CharSet.all(maxCharacter);
+
+	const cache = new Map<string, EditState>();
+	function intern(key: string, create: () => EditState): EditState {
+		let state = cache.get(key);
+		if (state === undefined) {
+			state = create();
+			cache.set(key, state);
+		}
+		return state;
+	}
+	function base(state: number, edits: number): EditState {
+		return intern(`b${state},${edits}`, () => ({ type: "Base", state, edits }));
+	}
+	function transposition(from: number, via: number, to: number, edits: number): EditState {
+		return intern(`t${from},${via},${to},${edits}`, () => ({ type: "Transposition", from, via, to, edits }));
+	}
+
+	/**
+	 * Returns the epsilon closure of the given base state as a map from original states to the minimum number of
+	 * edits. Each epsilon transition deletes one character of the original word.
+	 *
+	 * Base states with more edits are never needed if the same original state is reachable with fewer edits.
+	 */
+	function closure(state: number, edits: number): Map<number, number> {
+		const result = new Map<number, number>([[state, edits]]);
+		let current = [state];
+		for (let e = edits + 1; e <= distance && current.length > 0; e++) {
+			const next: number[] = [];
+			for (const s of current) {
+				for (const [to] of out[s]) {
+					if (!result.has(to)) {
+						result.set(to, e);
+						next.push(to);
+					}
+				}
+			}
+			current = next;
+		}
+		return result;
+	}
+
+	const initial: EditState = { type: "Initial" };
+
+	function getBaseOut(state: number, edits: number): Map<EditState, CharSet> {
+		const result = new Map<EditState, CharSet>();
+		function link(to: EditState, characters: CharSet): void {
+			const current = result.get(to);
+			result.set(to, current === undefined ? characters : current.union(characters));
+		}
+
+		closure(state, edits).forEach((e, s) => {
+			for (const [to, characters] of out[s]) {
+				// match
+				link(base(to, e), characters);
+
+				if (e < distance) {
+					// substitution
+					link(base(to, e + 1), all);
+
+					if (transpositions) {
+						for (const [after, afterCharacters] of out[to]) {
+							link(transposition(s, to, after, e), afterCharacters);
+						}
+					}
+				}
+			}
+			if (e < distance) {
+				// insertion
+				link(base(s, e + 1), all);
+			}
+		});
+
+		return result;
+	}
+	function isBaseFinal(state: number, edits: number): boolean {
+		for (const s of closure(state, edits).keys()) {
+			if (isFinal[s]) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	const initialIndex = indexes.get(iter.initial)!;
+
+	return {
+		initial,
+		getOut(state) {
+			switch (state.type) {
+				case "Initial":
+					return getBaseOut(initialIndex, 0);
+				case "Base":
+					return getBaseOut(state.state, state.edits);
+				case "Transposition": {
+					// read the character of the first transition after the character of the second transition
+					const characters = out[state.from].find(([to]) => to === state.via)![1];
+					return new Map([[base(state.to, state.edits + 1), characters]]);
+				}
+				default:
+					throw assertNever(state);
+			}
+		},
+		isFinal(state) {
+			switch (state.type) {
+				case "Initial":
+					return isBaseFinal(initialIndex, 0);
+				case "Base":
+					return isBaseFinal(state.state, state.edits);
+				case "Transposition":
+					return false;
+				default:
+					throw assertNever(state);
+			}
+		},
+	};
+}
@@ -0,0 +1,209 @@
+import { CharSet } from "./char-set";
+import { getBaseSets } from "./char-util";
+import { faEnsurePureOut } from "./fa-iterator";
+import {
+	EquivalenceResult,
+	FAIterator,
+	IntersectionOptions,
+	SubsetResult,
+	TooManyNodesError,
+} from "./finite-automaton";
+import { filterMut } from "./util";
+import { pickMostReadableWord } from "./words";
+
+/**
+ * Returns a shortest word set such that all of its words distinguish the two given FA or `undefined` if there is no
+ * such word set.
+ *
+ * A word distinguishes the two FA if the given `isDistinguishing` function returns `true` for the acceptance of the
+ * word by the left and the right FA.
+ *
+ * This will lazily and simultaneously determinize both FA, so only the parts of the FA necessary to find a
+ * distinguishing word set will be traversed.
+ *
+ * @param left
+ * @param right
+ * @param isDistinguishing
+ * @param options
+ */
+export function findDistinguishingWordSet<L, R>(
+	left: FAIterator<L, ReadonlyMap<L, CharSet>>,
+	right: FAIterator<R, ReadonlyMap<R, CharSet>>,
+	isDistinguishing: (leftAccepts: boolean, rightAccepts: boolean) => boolean,
+	options: undefined | Readonly<IntersectionOptions>
+): CharSet[] | undefined {
+	left = faEnsurePureOut(left);
+	right = faEnsurePureOut(right);
+
+	const maxNodes = options?.maxNodes ?? Infinity;
+
+	const leftSubsets = createSubsetHelper(left);
+	const rightSubsets = createSubsetHelper(right);
+
+	interface PairNode {
+		readonly left: readonly L[];
+		readonly right: readonly R[];
+		readonly parent: PairNode | null;
+		readonly value: CharSet | null;
+	}
+
+	function getPath(node: PairNode): CharSet[] {
+		const path: CharSet[] = [];
+		while (node.value) {
+			path.push(node.value);
+			node = node.parent!;
+		}
+		return path.reverse();
+	}
+
+	const root: PairNode = { left: [left.initial], right: [right.initial], parent: null, value: null };
+	const visited = new Set<string>([leftSubsets.getKey(root.left) + "|" + rightSubsets.getKey(root.right)]);
+
+	// BFS guarantees that the first distinguishing word set found is also a shortest one
+	let currentWave: PairNode[] = [root];
+	while (currentWave.length > 0) {
+		const nextWave: PairNode[] = [];
+
+		for (const node of currentWave) {
+			if (isDistinguishing(leftSubsets.isFinal(node.left), rightSubsets.isFinal(node.right))) {
+				return getPath(node);
+			}
+
+			const sets = new Set<CharSet>();
+			leftSubsets.addCharSets(node.left, sets);
+			rightSubsets.addCharSets(node.right, sets);
+
+			for (const baseSet of getBaseSets(sets)) {
+				const char = baseSet.ranges[0].min;
+				const nextLeft = leftSubsets.next(node.left, char);
+				const nextRight = rightSubsets.next(node.right, char);
+
+				const key = leftSubsets.getKey(nextLeft) + "|" + rightSubsets.getKey(nextRight);
+				if (!visited.has(key)) {
+					if (visited.size > maxNodes) {
+						throw new TooManyNodesError();
+					}
+					visited.add(key);
+					nextWave.push({ left: nextLeft, right: nextRight, parent: node, value: baseSet });
+				}
+			}
+		}
+
+		currentWave = nextWave;
+	}
+
+	return undefined;
+}
+
+/**
+ * Returns whether the two given FA accept the same language.
+ *
+ * If they don't, the most readable word of a shortest word set accepted by exactly one of the two FA will be returned.
+ * The given function decides whether the left FA accepts a word, so that the FA accepting the word can be reported.
+ *
+ * @param left
+ * @param right
+ * @param testLeft
+ * @param options
+ */
+export function faIsEquivalentTo<L, R>(
+	left: FAIterator<L, ReadonlyMap<L, CharSet>>,
+	right: FAIterator<R, ReadonlyMap<R, CharSet>>,
+	testLeft: (word: readonly number[]) => boolean,
+	options: undefined | Readonly<IntersectionOptions>
+): EquivalenceResult {
+	const wordSet = findDistinguishingWordSet(
+		left,
+		right,
+		(leftAccepts, rightAccepts) => leftAccepts !== rightAccepts,
+		options
+	);
+
+	if (wordSet === undefined) {
+		return { equivalent: true };
+	} else {
+		const word = pickMostReadableWord(wordSet)!;
+		return { equivalent: false, word, acceptedBy: testLeft(word) ? "this" : "other" };
+	}
+}
+
+/**
+ * Returns whether the language of the left FA is a subset of the language of the right FA.
+ *
+ * If it is not, the most readable word of a shortest word set accepted by the left FA but not the right FA will be
+ * returned.
+ *
+ * @param left
+ * @param right
+ * @param options
+ */
+export function faIsSubsetOf<L, R>(
+	left: FAIterator<L, ReadonlyMap<L, CharSet>>,
+	right: FAIterator<R, ReadonlyMap<R, CharSet>>,
+	options: undefined | Readonly<IntersectionOptions>
+): SubsetResult {
+	const wordSet = findDistinguishingWordSet(
+		left,
+		right,
+		(leftAccepts, rightAccepts) => leftAccepts && !rightAccepts,
+		options
+	);
+
+	if (wordSet === undefined) {
+		return { subset: true };
+	} else {
+		return { subset: false, word: pickMostReadableWord(wordSet)! };
+	}
+}
+
+interface SubsetHelper<T> {
+	getKey(states: readonly T[]): string;
+	isFinal(states: readonly T[]): boolean;
+	addCharSets(states: readonly T[], sets: Set<CharSet>): void;
+	/**
+	 * Returns the sorted and duplicate-free set of all states reachable via the given character.
+	 */
+	next(states: readonly T[], char: number): T[];
+}
+function createSubsetHelper<T>(iter: FAIterator<T, ReadonlyMap<T, CharSet>>): SubsetHelper<T> {
+	const idMap = new Map<T, number>();
+	function getId(state: T): number {
+		let id = idMap.get(state);
+		if (id === undefined) {
+			id = idMap.size;
+			idMap.set(state, id);
+		}
+		return id;
+	}
+
+	return {
+		getKey(states) {
+			let key = "";
+			for (let i = 0, l = states.length; i < l; i++) {
+				key += "," + getId(states[i]).toString(16);
+			}
+			return key;
+		},
+		isFinal(states) {
+			return states.some(s => iter.isFinal(s));
+		},
+		addCharSets(states, sets) {
+			for (const state of states) {
+				iter.getOut(state).forEach(cs => sets.add(cs));
+			}
+		},
+		next(states, char) {
+			const result: T[] = [];
+			for (const state of states) {
+				iter.getOut(state).forEach((cs, to) => {
+					if (cs.has(char)) {
+						result.push(to);
+					}
+				});
+			}
+			result.sort((a, b) => getId(a) - getId(b));
+			filterMut(result, (s, prev) => s !== prev);
+			return result;
+		},
+	};
+}
@@ -1,4 +1,5 @@
-import { FAIterator } from "./finite-automaton";
+import { CharSet } from "./char-set";
+import { FAIterator, TooManyNodesError, WordLengthSet } from "./finite-automaton";
 import { IterateBFS, iterToArray, traverse } from "./util";
 
 /**
@@ -259,6 +260,400 @@ export function faLanguageIsFinite<T>(iter: FAIterator<T>): boolean {
 	// reach a final state.
 	return !faHasCycle(iterToFinal);
 }
+
+/**
+ * Returns the length of the shortest word accepted by the given FA or `undefined` if the FA doesn't accept any words.
+ *
+ * @param iter
+ */
+export function faMinWordLength<T>(iter: FAIterator<T>): number | undefined {
+	const visited = new Set<T>([iter.initial]);
+	let current: T[] = [iter.initial];
+	for (let length = 0; current.length > 0; length++) {
+		if (current.some(iter.isFinal)) {
+			return length;
+		}
+
+		const next: T[] = [];
+		for (const state of current) {
+			for (const out of iter.getOut(state)) {
+				if (!visited.has(out)) {
+					visited.add(out);
+					next.push(out);
+				}
+			}
+		}
+		current = next;
+	}
+	return undefined;
+}
+
+/**
+ * Returns the length of the longest word accepted by the given FA.
+ *
+ * If the FA accepts infinitely many words, `Infinity` will be returned. If the FA doesn't accept any words, `undefined`
+ * will be returned.
+ *
+ * @param iter
+ */
+export function faMaxWordLength<T>(iter: FAIterator<T>): number | undefined {
+	iter = faCacheOut(faMapOut(iter, i => [...i]));
+
+	const states = [...faIterateStates(iter)];
+	const inMap = createInTransitionMap(states, iter.getOut);
+	const statesToFinal = new Set(IterateBFS(states.filter(iter.isFinal), s => inMap.get(s)!));
+	if (!statesToFinal.has(iter.initial)) {
+		return undefined;
+	}
+
+	const iterToFinal = faFilterOutIter(iter, s => statesToFinal.has(s));
+	if (faHasCycle(iterToFinal)) {
+		return Infinity;
+	}
+
+	// Since there are no cycles, the longest path from a state to a final state can be computed in post-order. This
+	// is implemented iteratively to avoid stack overflows.
+	const longest = new Map<T, number>();
+	const stack: [T, T[]][] = [[iter.initial, [...iterToFinal.getOut(iter.initial)]]];
+	while (stack.length > 0) {
+		const [state, toVisit] = stack[stack.length - 1];
+		const next = toVisit.pop();
+		if (next !== undefined) {
+			if (!longest.has(next)) {
+				stack.push([next, [...iterToFinal.getOut(next)]]);
+			}
+		} else {
+			stack.pop();
+			let value = iter.isFinal(state) ? 0 : -Infinity;
+			for (const out of iterToFinal.getOut(state)) {
+				value = Math.max(value, longest.get(out)! + 1);
+			}
+			longest.set(state, value);
+		}
+	}
+
+	return longest.get(iter.initial)!;
+}
+
+/**
+ * Returns the set of the lengths of all words accepted by the given FA.
+ *
+ * The set of lengths is computed by determinizing the FA as if all characters were the same character. The states of
+ * this unary DFA will eventually repeat, so the set of lengths is ultimately periodic. If the unary DFA has more than
+ * the given maximum number of states, a `TooManyNodesError` will be thrown.
+ *
+ * @param iter
+ * @param maxNodes
+ */
+export function faWordLengths<T>(iter: FAIterator<T>, maxNodes: number): WordLengthSet {
+	iter = faCacheOut(faMapOut(iter, i => [...i]));
+
+	const states = [...faIterateStates(iter)];
+	const ids = new Map<T, number>(states.map((s, i) => [s, i]));
+	const inMap = createInTransitionMap(states, iter.getOut);
+	const statesToFinal = new Set(IterateBFS(states.filter(iter.isFinal), s => inMap.get(s)!));
+
+	const lengths: number[] = [];
+	// maps the key of a subset of states to the first length at which the subset was seen
+	const seen = new Map<string, number>();
+	let current: T[] = statesToFinal.has(iter.initial) ? [iter.initial] : [];
+	for (let length = 0; current.length > 0; length++) {
+		const key = current
+			.map(s => ids.get(s)!)
+			.sort((a, b) => a - b)
+			.join(",");
+		const seenAt = seen.get(key);
+		if (seenAt !== undefined) {
+			// all lengths from `seenAt` on repeat with a period of `length - seenAt`
+			return createPeriodicLengthSet(lengths, seenAt, length - seenAt);
+		}
+		if (seen.size >= maxNodes) {
+			throw new TooManyNodesError(`The word lengths cannot be computed with at most ${maxNodes} sets of states.`);
+		}
+		seen.set(key, length);
+
+		if (current.some(iter.isFinal)) {
+			lengths.push(length);
+		}
+
+		const next = new Set<T>();
+		for (const state of current) {
+			for (const out of iter.getOut(state)) {
+				if (statesToFinal.has(out)) {
+					next.add(out);
+				}
+			}
+		}
+		current = [...next];
+	}
+
+	return { lengths, progressions: [] };
+}
+
+/**
+ * Creates the simplest length set for the given lengths such that all lengths greater or equal to the given threshold
+ * repeat with the given period.
+ *
+ * @param lengths The sorted list of all lengths smaller than `threshold + period`.
+ * @param threshold
+ * @param period
+ */
+function createPeriodicLengthSet(lengths: readonly number[], threshold: number, period: number): WordLengthSet {
+	const set = new Set(lengths);
+	const has = (length: number): boolean => {
+		return length < threshold ? set.has(length) : set.has(threshold + ((length - threshold) % period));
+	};
+
+	// use the smallest period
+	for (let smaller = 1; smaller < period; smaller++) {
+		if (period % smaller === 0) {
+			let isPeriod = true;
+			for (let length = threshold; length < threshold + period; length++) {
+				if (has(length) !== has(length + smaller)) {
+					isPeriod = false;
+					break;
+				}
+			}
+			if (isPeriod) {
+				period = smaller;
+				break;
+			}
+		}
+	}
+
+	// use the smallest threshold
+	while (threshold > 0 && has(threshold - 1) === has(threshold - 1 + period)) {
+		threshold--;
+	}
+
+	const finite: number[] = [];
+	const progressions: { start: number; step: number }[] = [];
+	for (let length = 0; length < threshold + period; length++) {
+		if (has(length)) {
+			if (length < threshold) {
+				finite.push(length);
+			} else {
+				progressions.push({ start: length, step: period });
+			}
+		}
+	}
+	return { lengths: finite, progressions };
+}
+
+/**
+ * Returns the number of words accepted by the given deterministic FA with a length between the given minimum and
+ * maximum length (both inclusive).
+ *
+ * Since the FA is deterministic, every path to a final state corresponds to exactly one word set and each transition
+ * contributes as many words as its character set has characters.
+ *
+ * If the maximum length is `Infinity`, the language of the FA has to be finite.
+ *
+ * @param iter
+ * @param minLength
+ * @param maxLength
+ */
+export function faCountWords<T>(
+	iter: FAIterator<T, ReadonlyMap<T, CharSet>>,
+	minLength: number,
+	maxLength: number
+): bigint {
+	validateLengthRange(minLength, maxLength);
+
+	const stateIter = faMapOut(iter, out => out.keys());
+	if (maxLength === Infinity && !faLanguageIsFinite(stateIter)) {
+		throw new Error("The FA accepts infinitely many words.");
+	}
+
+	const states = [...faIterateStates(stateIter)];
+	const inMap = createInTransitionMap(states, stateIter.getOut);
+
+	// only states that can reach a final state can contribute words
+	const statesToFinal = new Set(IterateBFS(states.filter(iter.isFinal), s => inMap.get(s)!));
+
+	// the number of word of the current length that lead to each state
+	let counts = new Map<T, bigint>();
+	if (statesToFinal.has(iter.initial)) {
+		counts.set(iter.initial, BigInt(1));
+	}
+
+	let total = BigInt(0);
+	for (let length = 0; counts.size > 0; length++) {
+		if (length >= minLength) {
+			counts.forEach((count, state) => {
+				if (iter.isFinal(state)) {
+					total += count;
+				}
+			});
+		}
+		if (length >= maxLength) {
+			break;
+		}
+
+		const next = new Map<T, bigint>();
+		counts.forEach((count, state) => {
+			iter.getOut(state).forEach((charSet, to) => {
+				if (statesToFinal.has(to)) {
+					next.set(to, (next.get(to) ?? BigInt(0)) + count * BigInt(charSet.size));
+				}
+			});
+		});
+		counts = next;
+	}
+
+	return total;
+}
+
+/**
+ * Returns the given number of words drawn uniformly at random from all words accepted by the given deterministic FA
+ * with a length between the given minimum and maximum length (both inclusive).
+ *
+ * If the FA doesn't accept any words within the given range, an empty array will be returned. If the maximum length
+ * is `Infinity`, the language of the FA has to be finite.
+ *
+ * @param iter
+ * @param minLength
+ * @param maxLength
+ * @param count
+ * @param rng A function returning a random number in the interval `[0, 1)`.
+ */
+export function faSampleWords<T>(
+	iter: FAIterator<T, ReadonlyMap<T, CharSet>>,
+	minLength: number,
+	maxLength: number,
+	count: number,
+	rng: () => number
+): number[][] {
+	validateLengthRange(minLength, maxLength);
+
+	const stateIter = faMapOut(iter, out => out.keys());
+	if (maxLength === Infinity && !faLanguageIsFinite(stateIter)) {
+		throw new Error("The FA accepts infinitely many words.");
+	}
+
+	const states = [...faIterateStates(stateIter)];
+	const inMap = createInTransitionMap(states, stateIter.getOut);
+	const statesToFinal = [...IterateBFS(states.filter(iter.isFinal), s => inMap.get(s)!)];
+
+	if (maxLength === Infinity) {
+		// the longest word of a finite language is shorter than the number of states that can reach a final state
+		maxLength = statesToFinal.length - 1;
+	}
+
+	// suffixCounts[k] is the number of words of length k that lead from each state to a final state
+	const zero = BigInt(0);
+	const suffixCounts: Map<T, bigint>[] = [new Map(statesToFinal.filter(iter.isFinal).map(s => [s, BigInt(1)]))];
+	for (let length = 1; length <= maxLength; length++) {
+		const prev = suffixCounts[length - 1];
+		const current = new Map<T, bigint>();
+		if (prev.size > 0) {
+			for (const state of statesToFinal) {
+				let sum = zero;
+				iter.getOut(state).forEach((charSet, to) => {
+					const toCount = prev.get(to);
+					if (toCount !== undefined) {
+						sum += toCount * BigInt(charSet.size);
+					}
+				});
+				if (sum > zero) {
+					current.set(state, sum);
+				}
+			}
+		}
+		suffixCounts.push(current);
+	}
+
+	let total = zero;
+	for (let length = minLength; length <= maxLength; length++) {
+		total += suffixCounts[length].get(iter.initial) ?? zero;
+	}
+	if (total === zero) {
+		return [];
+	}
+
+	const words: number[][] = [];
+	for (let i = 0; i < count; i++) {
+		// choose the length of the word weighted by the number of words with that length
+		let index = randomBigInt(rng, total);
+		let length = minLength;
+		for (; ; length++) {
+			const lengthCount = suffixCounts[length].get(iter.initial) ?? zero;
+			if (index < lengthCount) {
+				break;
+			}
+			index -= lengthCount;
+		}
+
+		// Every number in [0, count(state, length)) corresponds to exactly one word. This number is decomposed into a
+		// transition, a character of the transition, and the number of the rest of the word.
+		const word: number[] = [];
+		let state = iter.initial;
+		for (; length > 0; length--) {
+			const prev = suffixCounts[length - 1];
+			for (const [to, charSet] of iter.getOut(state)) {
+				const toCount = prev.get(to);
+				if (toCount === undefined) {
+					continue;
+				}
+				const transitionCount = toCount * BigInt(charSet.size);
+				if (index < transitionCount) {
+					word.push(getCharAt(charSet, Number(index / toCount)));
+					index %= toCount;
+					state = to;
+					break;
+				}
+				index -= transitionCount;
+			}
+		}
+		words.push(word);
+	}
+	return words;
+}
+
+function validateLengthRange(minLength: number, maxLength: number): void {
+	if (!Number.isInteger(minLength) || minLength < 0) {
+		throw new RangeError(`The minimum length has to be a non-negative integer. (minLength=${minLength})`);
+	}
+	if (!(Number.isInteger(maxLength) || maxLength === Infinity) || maxLength < 0) {
+		throw new RangeError(
+			`The maximum length has to be a non-negative integer or Infinity. (maxLength=${maxLength})`
+		);
+	}
+}
+
+/**
+ * Returns a random integer in the interval `[0, bound)`.
+ *
+ * @param rng
+ * @param bound
+ */
+function randomBigInt(rng: () => number, bound: bigint): bigint {
+	const bits = bound.toString(2).length;
+	const mask = (BigInt(1) << BigInt(bits)) - BigInt(1);
+	// rejection sampling ensures that all values are equally likely
+	for (;;) {
+		let value = BigInt(0);
+		for (let i = 0; i < bits; i += 32) {
+			value = (value << BigInt(32)) | BigInt(Math.floor(rng() * 0x100000000));
+		}
+		value &= mask;
+		if (value < bound) {
+			return value;
+		}
+	}
+}
+
+function getCharAt(charSet: CharSet, index: number): number {
+	for (const { min, max } of charSet.ranges) {
+		const size = max - min + 1;
+		if (index < size) {
+			return min + index;
+		}
+		index -= size;
+	}
+	throw new RangeError("The index is not within the character set.");
+}
+
 function createInTransitionMap<T>(
 	states: ReadonlySet<T> | readonly T[],
 	getOut: (state: T) => Iterable<T>
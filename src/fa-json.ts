@@ -0,0 +1,144 @@
+import { CharRange, CharSet } from "./char-set";
+import { FAExporter } from "./fa-util";
+import { FAIterator, FAJSON, FAJSONTransition } from "./finite-automaton";
+
+const VERSION = 1;
+
+/**
+ * Returns an exporter that creates the JSON representation of an FA.
+ *
+ * @param maxCharacter
+ */
+export function jsonExporter(maxCharacter: number): FAExporter<FAJSON> {
+	return fa => {
+		const finals: number[] = [];
+		const transitions: FAJSONTransition[] = [];
+		for (let state = 0; state < fa.stateCount; state++) {
+			if (fa.isFinal(state)) {
+				finals.push(state);
+			}
+			for (const [to, cs] of fa.getOut(state)) {
+				transitions.push({ from: state, to, ranges: cs.ranges.map(({ min, max }) => ({ min, max })) });
+			}
+		}
+
+		return { version: VERSION, maxCharacter, states: fa.stateCount, initial: fa.initial, finals, transitions };
+	};
+}
+
+export interface ParsedFAJSON {
+	readonly maxCharacter: number;
+	readonly iter: FAIterator<number, ReadonlyMap<number, CharSet>>;
+}
+
+/**
+ * Validates the given JSON representation of an FA and returns an iterator over the represented FA.
+ *
+ * If the given value is not a valid JSON representation, an error will be thrown.
+ *
+ * @param json
+ * @param deterministic Whether the represented FA has to be deterministic.
+ */
+export function parseFAJSON(json: Readonly<FAJSON>, deterministic: boolean): ParsedFAJSON {
+	function fail(message: string): never {
+		throw new Error(`Invalid FA JSON: ${message}`);
+	}
+	function isObject(value: unknown): value is Record<string, unknown> {
+		return typeof value === "object" && value !== null;
+	}
+	function isNonNegativeInteger(value: unknown): value is number {
+		return typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+	}
+
+	if (!isObject(json)) {
+		fail("Expected an object.");
+	}
+	if (json.version !== VERSION) {
+		fail(`Unsupported version ${String(json.version)}. Only version ${VERSION} is supported.`);
+	}
+
+	const { maxCharacter, states } = json;
+	if (!isNonNegativeInteger(maxCharacter)) {
+		fail("The maximum character has to be a non-negative integer.");
+	}
+	if (!isNonNegativeInteger(states) || states === 0) {
+		fail("The number of states has to be a positive integer.");
+	}
+	function checkState(value: unknown): number {
+		if (!isNonNegativeInteger(value) || value >= states) {
+			fail(`${String(value)} is not a valid state.`);
+		}
+		return value;
+	}
+
+	const initial = checkState(json.initial);
+
+	if (!Array.isArray(json.finals)) {
+		fail("The final states have to be an array.");
+	}
+	const finals = new Set<number>(json.finals.map(checkState));
+
+	if (!Array.isArray(json.transitions)) {
+		fail("The transitions have to be an array.");
+	}
+	const rangesOf: Map<number, CharRange[]>[] = [];
+	for (let i = 0; i < states; i++) {
+		rangesOf.push(new Map());
+	}
+	for (const transition of json.transitions as readonly unknown[]) {
+		if (!isObject(transition)) {
+			fail("Expected a transition object.");
+		}
+		const from = checkState(transition.from);
+		const to = checkState(transition.to);
+		if (!Array.isArray(transition.ranges) || transition.ranges.length === 0) {
+			fail(`The transition from ${from} to ${to} has to have a non-empty array of ranges.`);
+		}
+
+		let ranges = rangesOf[from].get(to);
+		if (ranges === undefined) {
+			ranges = [];
+			rangesOf[from].set(to, ranges);
+		}
+		for (const range of transition.ranges as readonly unknown[]) {
+			if (
+				!isObject(range) ||
+				!isNonNegativeInteger(range.min) ||
+				!isNonNegativeInteger(range.max) ||
+				range.min > range.max
+			) {
+				fail(`The transition from ${from} to ${to} contains an invalid range.`);
+			}
+			if (range.max > maxCharacter) {
+				fail(`The transition from ${from} to ${to} contains characters greater than the maximum character.`);
+			}
+			ranges.push({ min: range.min, max: range.max });
+		}
+	}
+
+	const out = rangesOf.map((map, from) => {
+		if (deterministic) {
+			const allRanges: CharRange[] = [];
+			map.forEach(ranges => allRanges.push(...ranges));
+			allRanges.sort((a, b) => a.min - b.min);
+			for (let i = 1; i < allRanges.length; i++) {
+				if (allRanges[i - 1].max >= allRanges[i].min) {
+					fail(`The FA is not deterministic. State ${from} has overlapping transitions.`);
+				}
+			}
+		}
+
+		const result = new Map<number, CharSet>();
+		map.forEach((ranges, to) => result.set(to, CharSet.empty(maxCharacter).union(ranges)));
+		return result;
+	});
+
+	return {
+		maxCharacter,
+		iter: {
+			initial,
+			getOut: state => out[state],
+			isFinal: state => finals.has(state),
+		},
+	};
+}
@@ -3,7 +3,14 @@ import { cachedFunc } from "./util";
 import { wordSetToWords } from "./words";
 import { faMapOut, faIterateStates, faCacheOut, faMapOutIter } from "./fa-iterator";
 import { rangesToString } from "./char-util";
-import { FAIterator } from "./finite-automaton";
+import {
+	Diagnosis,
+	FAIterator,
+	ToDotOptions,
+	ToGraphMLOptions,
+	ToGraphOptions,
+	ToMermaidOptions,
+} from "./finite-automaton";
 
 /**
  * Returns a human readable string representation of the given FA. The FA has to have exactly one initial state.
@@ -24,25 +31,13 @@ import { FAIterator } from "./finite-automaton";
  * @param iter
  */
 export function faToString<T>(iter: FAIterator<T, Iterable<[T, string]>>): string {
-	const stableIter = faCacheOut(
-		faMapOut(iter, out => {
-			return [...out].sort(([, a], [, b]) => a.localeCompare(b));
-		})
-	);
-
-	// get all states
-	const states: T[] = [...faIterateStates(faMapOutIter(stableIter, ([s]) => s))];
+	const { states, indexOf, getOut, isFinal } = faNumberStates(iter, label => label);
 	if (states.length === 0) {
 		return "Empty.";
 	}
 
-	const index = new Map<T, number>(states.map((s, i) => [s, i]));
-	const indexOf = (state: T): number => {
-		return index.get(state)!;
-	};
-
 	const labelOf = (state: T): string => {
-		if (stableIter.isFinal(state)) {
+		if (isFinal(state)) {
 			return `[${indexOf(state)}]`;
 		} else {
 			return `(${indexOf(state)})`;
@@ -52,7 +47,7 @@ export function faToString<T>(iter: FAIterator<T, Iterable<[T, string]>>): strin
 	return states
 		.map(state => {
 			const label = labelOf(state);
-			const out = stableIter.getOut(state).sort((a, b) => indexOf(a[0]) - indexOf(b[0]));
+			const out = getOut(state);
 
 			if (out.length === 0) {
 				return `${label} -> none`;
@@ -72,6 +67,312 @@ export function faWithCharSetsToString<T>(iter: FAIterator<T, Iterable<[T, CharS
 	return faToString(faMapOutIter(iter, ([n, cs]) => [n, rangesToString(cs.ranges)]));
 }
 
+/**
+ * A read-only view of an FA in which all states have been numbered.
+ *
+ * States are numbered from `0` to `stateCount - 1` in the same order as the string representation returned by
+ * `faWithCharSetsToString`.
+ */
+export interface ExportableFA {
+	readonly stateCount: number;
+	readonly initial: number;
+	readonly isFinal: (state: number) => boolean;
+	/**
+	 * Returns the outgoing transitions of the given state ordered by the number of their target states.
+	 */
+	readonly getOut: (state: number) => readonly (readonly [number, CharSet])[];
+}
+
+/**
+ * A function that converts the given numbered FA into a different representation.
+ */
+export type FAExporter<R = string> = (fa: ExportableFA) => R;
+
+/**
+ * Returns the representation of the given FA created by the given exporter. The FA has to have exactly one initial
+ * state.
+ *
+ * @param iter
+ * @param exporter
+ */
+export function faExport<T, R>(iter: FAIterator<T, Iterable<[T, CharSet]>>, exporter: FAExporter<R>): R {
+	const { states, indexOf, getOut, isFinal } = faNumberStates(iter, cs => rangesToString(cs.ranges));
+
+	return exporter({
+		stateCount: states.length,
+		initial: indexOf(iter.initial),
+		isFinal: state => isFinal(states[state]),
+		getOut: state => getOut(states[state]).map(([to, cs]) => [indexOf(to), cs] as const),
+	});
+}
+
+interface GraphLabels {
+	readonly stateLabel: (state: number) => string;
+	readonly charSetLabel: (charSet: CharSet) => string;
+}
+function getGraphLabels(options: undefined | Readonly<ToGraphOptions>): GraphLabels {
+	const charSetToString = options?.charSetToString ?? ((cs: CharSet): string => rangesToString(cs.ranges, true));
+	const stateIds = options?.stateIds ?? true;
+
+	return {
+		stateLabel: state => (stateIds ? String(state) : ""),
+		charSetLabel: charSetToString,
+	};
+}
+
+/**
+ * Returns an exporter that creates the Graphviz DOT representation of an FA.
+ *
+ * Example output: for `a*d|bb*`
+ * ```txt
+ * digraph {
+ * 	rankdir=LR;
+ * 	node [shape=circle];
+ * 	start [shape=point, label=""];
+ * 	start -> 0;
+ *
+ * 	0 [label="0"];
+ * 	1 [label="1"];
+ * 	2 [label="2", shape=doublecircle];
+ * 	3 [label="3", shape=doublecircle];
+ * 	4 [label="4", shape=doublecircle];
+ *
+ * 	0 -> 1 [label="61 'a'"];
+ * 	0 -> 2 [label="62 'b'"];
+ * 	0 -> 3 [label="64 'd'"];
+ * 	1 -> 1 [label="61 'a'"];
+ * 	1 -> 3 [label="64 'd'"];
+ * 	2 -> 4 [label="62 'b'"];
+ * 	4 -> 4 [label="62 'b'"];
+ * }
+ * ```
+ *
+ * @param options
+ */
+export function dotExporter(options?: Readonly<ToDotOptions>): FAExporter {
+	const { stateLabel, charSetLabel } = getGraphLabels(options);
+
+	return fa => {
+		const lines: string[] = [];
+		lines.push("digraph {", "\trankdir=LR;", "\tnode [shape=circle];");
+		lines.push('\tstart [shape=point, label=""];', `\tstart -> ${fa.initial};`, "");
+
+		for (let state = 0; state < fa.stateCount; state++) {
+			const shape = fa.isFinal(state) ? ", shape=doublecircle" : "";
+			lines.push(`\t${state} [label=${dotString(stateLabel(state))}${shape}];`);
+		}
+
+		const edges: string[] = [];
+		for (let state = 0; state < fa.stateCount; state++) {
+			for (const [to, cs] of fa.getOut(state)) {
+				edges.push(`\t${state} -> ${to} [label=${dotString(charSetLabel(cs))}];`);
+			}
+		}
+		if (edges.length > 0) {
+			lines.push("", ...edges);
+		}
+
+		lines.push("}");
+		return lines.join("\n");
+	};
+}
+
+/**
+ * Returns the Graphviz DOT representation of the given FA.
+ *
+ * This is equivalent to `faExport(iter, dotExporter(options))`.
+ *
+ * @param iter
+ * @param options
+ */
+export function faToDot<T>(iter: FAIterator<T, Iterable<[T, CharSet]>>, options?: Readonly<ToDotOptions>): string {
+	return faExport(iter, dotExporter(options));
+}
+
+function dotString(value: string): string {
+	return '"' + value.replace(/["\\]/g, "\\$&").replace(/\r?\n/g, "\\n") + '"';
+}
+
+/**
+ * Returns an exporter that creates the Mermaid representation of an FA.
+ *
+ * Example output: for `a*d|bb*` as a state diagram
+ * ```txt
+ * stateDiagram-v2
+ * 	direction LR
+ * 	state "0" as s0
+ * 	state "1" as s1
+ * 	state "2" as s2
+ * 	state "3" as s3
+ * 	state "4" as s4
+ * 	[*] --> s0
+ * 	s2 --> [*]
+ * 	s3 --> [*]
+ * 	s4 --> [*]
+ * 	s0 --> s1 : 61 'a'
+ * 	s0 --> s2 : 62 'b'
+ * 	s0 --> s3 : 64 'd'
+ * 	s1 --> s1 : 61 'a'
+ * 	s1 --> s3 : 64 'd'
+ * 	s2 --> s4 : 62 'b'
+ * 	s4 --> s4 : 62 'b'
+ * ```
+ *
+ * @param options
+ */
+export function mermaidExporter(options?: Readonly<ToMermaidOptions>): FAExporter {
+	const { stateLabel, charSetLabel } = getGraphLabels(options);
+	const diagram = options?.diagram ?? "stateDiagram";
+
+	if (diagram === "stateDiagram") {
+		return fa => {
+			const lines: string[] = ["stateDiagram-v2", "\tdirection LR"];
+
+			for (let state = 0; state < fa.stateCount; state++) {
+				lines.push(`\tstate "${mermaidString(stateLabel(state) || " ")}" as s${state}`);
+			}
+			lines.push(`\t[*] --> s${fa.initial}`);
+			for (let state = 0; state < fa.stateCount; state++) {
+				if (fa.isFinal(state)) {
+					lines.push(`\ts${state} --> [*]`);
+				}
+			}
+			for (let state = 0; state < fa.stateCount; state++) {
+				for (const [to, cs] of fa.getOut(state)) {
+					lines.push(`\ts${state} --> s${to} : ${mermaidString(charSetLabel(cs))}`);
+				}
+			}
+
+			return lines.join("\n");
+		};
+	} else {
+		return fa => {
+			const lines: string[] = ["flowchart LR"];
+
+			lines.push(`\tstart((" ")) --> s${fa.initial}`);
+			for (let state = 0; state < fa.stateCount; state++) {
+				const label = `"${mermaidString(stateLabel(state) || " ")}"`;
+				lines.push(fa.isFinal(state) ? `\ts${state}(((${label})))` : `\ts${state}((${label}))`);
+			}
+			for (let state = 0; state < fa.stateCount; state++) {
+				for (const [to, cs] of fa.getOut(state)) {
+					lines.push(`\ts${state} -->|"${mermaidString(charSetLabel(cs))}"| s${to}`);
+				}
+			}
+
+			return lines.join("\n");
+		};
+	}
+}
+
+function mermaidString(value: string): string {
+	// Mermaid uses HTML-like entity codes for characters that would otherwise be interpreted as syntax
+	return value.replace(/[#";<>|]/g, c => `#${c.charCodeAt(0)};`).replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Returns an exporter that creates the GraphML representation of an FA.
+ *
+ * Nodes have a boolean `initial` and `final` attribute and edges have a `characters` attribute which contains the
+ * character ranges of the transition in the format of `rangesToString`. Nodes and edges also have a `label`
+ * attribute.
+ *
+ * @param options
+ */
+export function graphMLExporter(options?: Readonly<ToGraphMLOptions>): FAExporter {
+	const { stateLabel, charSetLabel } = getGraphLabels(options);
+
+	return fa => {
+		const lines: string[] = [
+			'<?xml version="1.0" encoding="UTF-8"?>',
+			'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+			'\t<key id="initial" for="node" attr.name="initial" attr.type="boolean"><default>false</default></key>',
+			'\t<key id="final" for="node" attr.name="final" attr.type="boolean"><default>false</default></key>',
+			'\t<key id="node-label" for="node" attr.name="label" attr.type="string"/>',
+			'\t<key id="characters" for="edge" attr.name="characters" attr.type="string"/>',
+			'\t<key id="edge-label" for="edge" attr.name="label" attr.type="string"/>',
+			'\t<graph id="FA" edgedefault="directed">',
+		];
+
+		for (let state = 0; state < fa.stateCount; state++) {
+			let data = "";
+			if (state === fa.initial) {
+				data += '<data key="initial">true</data>';
+			}
+			if (fa.isFinal(state)) {
+				data += '<data key="final">true</data>';
+			}
+			data += `<data key="node-label">${xmlString(stateLabel(state))}</data>`;
+			lines.push(`\t\t<node id="n${state}">${data}</node>`);
+		}
+		for (let state = 0; state < fa.stateCount; state++) {
+			for (const [to, cs] of fa.getOut(state)) {
+				const data =
+					`<data key="characters">${xmlString(rangesToString(cs.ranges))}</data>` +
+					`<data key="edge-label">${xmlString(charSetLabel(cs))}</data>`;
+				lines.push(`\t\t<edge source="n${state}" target="n${to}">${data}</edge>`);
+			}
+		}
+
+		lines.push("\t</graph>", "</graphml>");
+		return lines.join("\n");
+	};
+}
+
+function xmlString(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+interface NumberedFA<T, L> {
+	/**
+	 * All states of the FA ordered by their number.
+	 */
+	readonly states: readonly T[];
+	readonly indexOf: (state: T) => number;
+	/**
+	 * Returns the outgoing transitions of the given state ordered by the number of their target states.
+	 */
+	readonly getOut: (state: T) => readonly [T, L][];
+	readonly isFinal: (state: T) => boolean;
+}
+
+/**
+ * Assigns a number to all states of the given FA.
+ *
+ * The numbering only depends on the structure of the FA and the given sort keys of the transitions, so it is stable
+ * across all string representations of an FA that use the same sort keys.
+ *
+ * @param iter
+ * @param getSortKey
+ */
+function faNumberStates<T, L>(
+	iter: FAIterator<T, Iterable<[T, L]>>,
+	getSortKey: (label: L) => string
+): NumberedFA<T, L> {
+	const stableIter = faCacheOut(
+		faMapOut(iter, out => {
+			return [...out]
+				.map(([s, l]) => [s, l, getSortKey(l)] as const)
+				.sort(([, , a], [, , b]) => a.localeCompare(b))
+				.map(([s, l]): [T, L] => [s, l]);
+		})
+	);
+
+	// get all states
+	const states: T[] = [...faIterateStates(faMapOutIter(stableIter, ([s]) => s))];
+
+	const index = new Map<T, number>(states.map((s, i) => [s, i]));
+	const indexOf = (state: T): number => {
+		return index.get(state)!;
+	};
+
+	const getOut = cachedFunc<T, readonly [T, L][]>(state => {
+		return [...stableIter.getOut(state)].sort((a, b) => indexOf(a[0]) - indexOf(b[0]));
+	});
+
+	return { states, indexOf, getOut, isFinal: stableIter.isFinal };
+}
+
 /**
  * Iterates all word sets of the given FA.
  *
@@ -205,3 +506,92 @@ export function* wordSetsToWords(wordSets: Iterable<CharSet[]>): IterableIterato
 		yield* wordSetToWords(wordSet);
 	}
 }
+
+/**
+ * Returns the diagnosis of the given word for the given FA.
+ *
+ * The given FA is simulated on the given word while ignoring all states that cannot reach a final state. This works
+ * for both deterministic and non-deterministic FA.
+ *
+ * @param iter
+ * @param word
+ * @param maxCharacter
+ */
+export function faDiagnose<T>(
+	iter: FAIterator<T, Iterable<[T, CharSet]>>,
+	word: Iterable<number>,
+	maxCharacter: number
+): Diagnosis {
+	const stableIter = faCacheOut(faMapOut(iter, out => [...out]));
+	const { initial, getOut, isFinal } = stableIter;
+
+	// all states that can reach a final state
+	const inMap = new Map<T, T[]>();
+	const finals: T[] = [];
+	for (const state of faIterateStates(faMapOutIter(stableIter, ([s]) => s))) {
+		if (isFinal(state)) {
+			finals.push(state);
+		}
+		for (const [to] of getOut(state)) {
+			let list = inMap.get(to);
+			if (list === undefined) {
+				list = [];
+				inMap.set(to, list);
+			}
+			list.push(state);
+		}
+	}
+	const alive = new Set<T>(finals);
+	const stack = [...finals];
+	while (stack.length > 0) {
+		for (const from of inMap.get(stack.pop()!) ?? []) {
+			if (!alive.has(from)) {
+				alive.add(from);
+				stack.push(from);
+			}
+		}
+	}
+
+	const prefix: number[] = [];
+	let current: T[] = alive.has(initial) ? [initial] : [];
+	let complete = true;
+	if (current.length > 0) {
+		for (const char of word) {
+			const next = new Set<T>();
+			for (const state of current) {
+				for (const [to, characters] of getOut(state)) {
+					if (alive.has(to) && characters.has(char)) {
+						next.add(to);
+					}
+				}
+			}
+
+			if (next.size === 0) {
+				complete = false;
+				break;
+			}
+			prefix.push(char);
+			current = [...next];
+		}
+	} else {
+		complete = false;
+	}
+
+	let expected = CharSet.empty(maxCharacter);
+	for (const state of current) {
+		for (const [to, characters] of getOut(state)) {
+			if (alive.has(to)) {
+				expected = expected.union(characters);
+			}
+		}
+	}
+
+	const accepted = complete && current.some(isFinal);
+	return {
+		accepted,
+		incomplete: complete && !accepted,
+		prefix,
+		index: prefix.length,
+		expected,
+	};
+}
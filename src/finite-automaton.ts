@@ -1,5 +1,5 @@
 import type { Expression, Simple } from "./ast";
-import type { CharSet } from "./char-set";
+import type { CharRange, CharSet } from "./char-set";
 
 export interface FiniteAutomaton {
 	/**
@@ -15,6 +15,60 @@ export interface FiniteAutomaton {
 	 */
 	readonly isFinite: boolean;
 
+	/**
+	 * The length of the shortest word accepted by this FA.
+	 *
+	 * If this FA doesn't accept any words, this will be `undefined`.
+	 */
+	readonly minWordLength: number | undefined;
+	/**
+	 * The length of the longest word accepted by this FA.
+	 *
+	 * If this FA accepts infinitely many words, this will be `Infinity`. If this FA doesn't accept any words, this
+	 * will be `undefined`.
+	 */
+	readonly maxWordLength: number | undefined;
+
+	/**
+	 * Returns the set of the lengths of all words accepted by this FA.
+	 *
+	 * E.g. the lengths of `a(?:bc)*|d{2,3}` are `{1, 2, 3, 5, 7, 9, ...}` which will be returned as the finite lengths
+	 * `1` and `2` and the progression `3 + 2k` for all `k >= 0`.
+	 *
+	 * The period of the set can be the least common multiple of the lengths of many different cycles, so computing it
+	 * can take exponential time. If the computation has to visit more than the given maximum number of sets of states,
+	 * a `TooManyNodesError` will be thrown.
+	 *
+	 * @param options
+	 */
+	wordLengths(options?: Readonly<WordLengthsOptions>): WordLengthSet;
+
+	/**
+	 * Returns the number of all words accepted by this FA.
+	 *
+	 * The language of this FA has to be finite. If this FA accepts infinitely many words, an error will be thrown.
+	 *
+	 * The number of words is computed from the number of characters of the transitions, so this will not iterate the
+	 * accepted words.
+	 */
+	countWords(): bigint;
+	/**
+	 * Returns the number of words with the given length accepted by this FA.
+	 *
+	 * @param length
+	 */
+	countWords(length: number): bigint;
+	/**
+	 * Returns the number of words accepted by this FA with a length between the given minimum and maximum length (both
+	 * inclusive).
+	 *
+	 * If the maximum length is `Infinity`, the language of this FA has to be finite.
+	 *
+	 * @param minLength
+	 * @param maxLength
+	 */
+	countWords(minLength: number, maxLength: number): bigint;
+
 	/**
 	 * The maximum character that is part of the alphabet of the words that this FA can accept.
 	 */
@@ -26,6 +80,15 @@ export interface FiniteAutomaton {
 	 * @param word The characters of the word to test.
 	 */
 	test(word: Iterable<number>): boolean;
+	/**
+	 * Returns a diagnosis of whether and why this FA does or does not accept the given word.
+	 *
+	 * The diagnosis contains the longest prefix of the given word that can still lead to acceptance and the characters
+	 * that are expected after it. This can be used to explain why a word is not accepted.
+	 *
+	 * @param word The characters of the word to diagnose.
+	 */
+	diagnose(word: Iterable<number>): Diagnosis;
 
 	/**
 	 * Returns an iterable that will yield all words accepted by this FA. Words are yielded by ascending length.
@@ -48,6 +111,38 @@ export interface FiniteAutomaton {
 	 * Returns a string representation of this FA.
 	 */
 	toString(): string;
+	/**
+	 * Returns the Graphviz DOT representation of this FA.
+	 *
+	 * The states are numbered the same way as in the string representation returned by `toString`.
+	 *
+	 * @param options
+	 */
+	toDot(options?: Readonly<ToDotOptions>): string;
+	/**
+	 * Returns the Mermaid representation of this FA.
+	 *
+	 * The states are numbered the same way as in the string representation returned by `toString`.
+	 *
+	 * @param options
+	 */
+	toMermaid(options?: Readonly<ToMermaidOptions>): string;
+	/**
+	 * Returns the GraphML representation of this FA.
+	 *
+	 * Besides a readable label, every transition also stores its characters in the format of `toString`.
+	 *
+	 * The states are numbered the same way as in the string representation returned by `toString`.
+	 *
+	 * @param options
+	 */
+	toGraphML(options?: Readonly<ToGraphMLOptions>): string;
+	/**
+	 * Returns the JSON representation of this FA.
+	 *
+	 * This method will also be used by `JSON.stringify`.
+	 */
+	toJSON(): FAJSON;
 	toRegex(options?: Readonly<ToRegexOptions>): Simple<Expression>;
 }
 
@@ -72,6 +167,86 @@ export interface ToRegexOptions {
 	maximumOptimizationPasses?: number;
 }
 
+export interface ToGraphOptions {
+	/**
+	 * Returns the label of a transition with the given character set.
+	 *
+	 * This can be used to print character sets in the syntax of a specific regex flavor. E.g. JavaScript character
+	 * classes can be created like this:
+	 *
+	 * ```js
+	 * cs => JS.toLiteral({ type: "Concatenation", elements: [{ type: "CharacterClass", characters: cs }] }).source
+	 * ```
+	 *
+	 * By default, character sets will be printed as a list of readable character ranges.
+	 */
+	charSetToString?: (charSet: CharSet) => string;
+	/**
+	 * Whether the number of each state will be used as its label.
+	 *
+	 * If this is `false`, states will be drawn without a label.
+	 *
+	 * By default, this value is set to `true`.
+	 */
+	stateIds?: boolean;
+}
+export type ToDotOptions = ToGraphOptions;
+export interface ToMermaidOptions extends ToGraphOptions {
+	/**
+	 * The kind of Mermaid diagram to create.
+	 *
+	 * By default, this value is set to `"stateDiagram"`.
+	 */
+	diagram?: "stateDiagram" | "flowchart";
+}
+export type ToGraphMLOptions = ToGraphOptions;
+
+/**
+ * The JSON representation of an FA.
+ *
+ * States are numbered from `0` to `states - 1` in the same order as the string representation of the FA.
+ */
+export interface FAJSON {
+	/**
+	 * The version of the format. Only version `1` is currently supported.
+	 */
+	readonly version: 1;
+	readonly maxCharacter: number;
+	/**
+	 * The number of states.
+	 */
+	readonly states: number;
+	readonly initial: number;
+	readonly finals: readonly number[];
+	readonly transitions: readonly FAJSONTransition[];
+}
+export interface FAJSONTransition {
+	readonly from: number;
+	readonly to: number;
+	/**
+	 * The non-empty list of character ranges of the transition. All ranges have to be within `maxCharacter`.
+	 */
+	readonly ranges: readonly CharRange[];
+}
+
+/**
+ * A set of non-negative integers that is the union of a finite set and finitely many arithmetic progressions.
+ *
+ * All lengths of the finite set are smaller than the starts of all progressions. All progressions have the same step
+ * and their starts are sorted and pairwise distinct. The step and the start of the first progression are as small as
+ * possible, so equal sets have equal representations.
+ */
+export interface WordLengthSet {
+	/**
+	 * The sorted finite set of lengths.
+	 */
+	readonly lengths: readonly number[];
+	/**
+	 * All progressions of lengths. A progression contains the lengths `start + k * step` for all `k >= 0`.
+	 */
+	readonly progressions: readonly { readonly start: number; readonly step: number }[];
+}
+
 /**
  * An iterator over all states of an FA with final states.
  */
@@ -108,6 +283,86 @@ export interface TransitionIterableFA extends FiniteAutomaton, TransitionIterabl
 	 * This is equivalent to `NFA.fromIntersection(this, other).words()` but implemented more efficiently.
 	 */
 	intersectionWords(other: TransitionIterable, options?: Readonly<IntersectionOptions>): Iterable<number[]>;
+
+	/**
+	 * Returns whether the languages of this and the other FA are equal.
+	 *
+	 * If the languages are not equal, a shortest word that is accepted by only one of the two FA will be returned
+	 * along with the FA that accepts it.
+	 *
+	 * This operation does not require either FA to be deterministic or minimal. Both FA will be determinized lazily,
+	 * so the maximum number of nodes given in the options limits the number of state pairs that may be created.
+	 *
+	 * @param other
+	 * @param options
+	 */
+	isEquivalentTo(other: TransitionIterable, options?: Readonly<IntersectionOptions>): EquivalenceResult;
+	/**
+	 * Returns whether the language of this FA is a subset of the language of the other FA.
+	 *
+	 * If the language of this FA is not a subset, a shortest word that is accepted by this FA but not by the other FA
+	 * will be returned.
+	 *
+	 * The other FA will be determinized and complemented lazily, so only the parts of both FA necessary to decide the
+	 * inclusion will be traversed. The maximum number of nodes given in the options limits the number of state pairs
+	 * that may be created.
+	 *
+	 * @param other
+	 * @param options
+	 */
+	isSubsetOf(other: TransitionIterable, options?: Readonly<IntersectionOptions>): SubsetResult;
+}
+
+/**
+ * The result of an equivalence check between this FA and another FA.
+ *
+ * If the two FA are not equivalent, `word` will be a shortest word that is accepted by exactly one of the two FA and
+ * `acceptedBy` will be the FA that accepts it.
+ */
+export type EquivalenceResult =
+	| { readonly equivalent: true }
+	| { readonly equivalent: false; readonly word: number[]; readonly acceptedBy: "this" | "other" };
+
+/**
+ * The result of an inclusion check between this FA and another FA.
+ *
+ * If the language of this FA is not a subset of the language of the other FA, `word` will be a shortest word that is
+ * accepted by this FA but not by the other FA.
+ */
+export type SubsetResult = { readonly subset: true } | { readonly subset: false; readonly word: number[] };
+
+/**
+ * The result of diagnosing a word.
+ *
+ * A prefix of a word is viable if it is also the prefix of some word accepted by the FA.
+ */
+export interface Diagnosis {
+	/**
+	 * Whether the diagnosed word is accepted.
+	 */
+	readonly accepted: boolean;
+	/**
+	 * Whether the diagnosed word is not accepted but is a viable prefix, meaning that the word is merely incomplete.
+	 */
+	readonly incomplete: boolean;
+	/**
+	 * The longest viable prefix of the diagnosed word.
+	 *
+	 * If the language of the FA is empty, no prefix is viable and this will be the empty word.
+	 */
+	readonly prefix: number[];
+	/**
+	 * The index of the first character of the diagnosed word that cannot be matched.
+	 *
+	 * This is always the length of `prefix`. If the diagnosed word is accepted or incomplete, this will be the length
+	 * of the diagnosed word.
+	 */
+	readonly index: number;
+	/**
+	 * The set of all characters that would have been accepted at `index`, i.e. all characters `c` such that `prefix`
+	 * followed by `c` is viable.
+	 */
+	readonly expected: CharSet;
 }
 
 export interface IntersectionOptions {
@@ -121,4 +376,14 @@ export interface IntersectionOptions {
 	maxNodes?: number;
 }
 
+export interface WordLengthsOptions {
+	/**
+	 * The maximum number of sets of states the computation of the word lengths is allowed to visit before throwing a
+	 * `TooManyNodesError`.
+	 *
+	 * By default, this value is set to 10K.
+	 */
+	maxNodes?: number;
+}
+
 export class TooManyNodesError extends Error {}
@@ -4,6 +4,9 @@ export * from "./finite-automaton";
 export * from "./ast";
 export * from "./nfa";
 export * from "./dfa";
+export * from "./lazy-dfa";
+export * from "./search";
+export * from "./tagged-nfa";
 
 export * as JS from "./js/index";
 export * as Words from "./words";
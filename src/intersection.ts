@@ -1,6 +1,7 @@
 import { CharSet } from "./char-set";
-import { faEnsurePureOut } from "./fa-iterator";
+import { faEnsurePureOut, faIterateStates, faMapOut } from "./fa-iterator";
 import { FAIterator, IntersectionOptions, TooManyNodesError } from "./finite-automaton";
+import { traverse } from "./util";
 
 /**
  * An FA builder has the responsibility of constructing a finite automata.
@@ -59,86 +60,225 @@ export function lazyIntersection<S, L, R>(
 	left = faEnsurePureOut(left);
 	right = faEnsurePureOut(right);
 
-	const maxNodes = options?.maxNodes ?? Infinity;
+	const product = createProduct(left, right, options);
+	const { initial, finals } = builder;
 
-	const leftToIndex = createIndexer<L>();
-	const rightToIndex = createIndexer<R>();
+	// node pair translation
+	const nodes = new Map<number, S>();
+	const indexes = new Map<S, number>();
+	function translate(index: number): S {
+		let node = nodes.get(index);
+		if (node !== undefined) {
+			return node;
+		}
 
-	const { initial, finals } = builder;
+		node = index === 0 ? initial : builder.createNode(index);
+		nodes.set(index, node);
+		indexes.set(node, index);
 
-	if (left.isFinal(left.initial) && right.isFinal(right.initial)) {
-		finals.add(initial);
+		const [leftNode, rightNode] = product.pairs[index];
+		if (left.isFinal(leftNode) && right.isFinal(rightNode)) {
+			finals.add(node);
+		}
+		return node;
 	}
 
-	// node pair translation
-	type Tuple<L, R> = readonly [L, R];
-	const indexBackTranslatorMap = new Map<S, Tuple<L, R>>();
-	indexBackTranslatorMap.set(initial, [left.initial, right.initial]);
-	const indexTranslatorCache: Record<string, S | undefined> = {
-		[`${leftToIndex(left.initial)};${rightToIndex(right.initial)}`]: initial,
+	translate(product.indexOf(left.initial, right.initial));
+
+	// add edges
+
+	function addOutgoing(from: S): void {
+		const index = indexes.get(from);
+		if (index === undefined) {
+			throw new Error("All created nodes have to be indexed.");
+		}
+
+		for (const [to, transition] of product.getOut(index)) {
+			builder.linkNodes(from, translate(to), transition);
+		}
+	}
+
+	return {
+		initial,
+		getOut(node: S): S {
+			addOutgoing(node);
+			return node;
+		},
+		isFinal(node: S): boolean {
+			return finals.has(node);
+		},
 	};
+}
 
-	let createdNodes = 0;
-	function translate(leftNode: L, rightNode: R): S {
-		const leftKey = leftToIndex(leftNode);
-		const rightKey = rightToIndex(rightNode);
-		const key = "" + leftKey + ";" + rightKey;
+/**
+ * Returns all states of the left FA that can be reached by reading a word accepted by the right FA.
+ *
+ * These are the states in which the left quotient of the left FA by the right FA starts.
+ *
+ * @param left
+ * @param right
+ * @param options
+ */
+export function leftQuotientStates<L, R>(
+	left: FAIterator<L, ReadonlyMap<L, CharSet>>,
+	right: FAIterator<R, ReadonlyMap<R, CharSet>>,
+	options: undefined | Readonly<IntersectionOptions>
+): Set<L> {
+	left = faEnsurePureOut(left);
+	right = faEnsurePureOut(right);
 
-		let node = indexTranslatorCache[key];
-		if (node === undefined) {
-			if (createdNodes > maxNodes) {
-				throw new TooManyNodesError();
-			}
-			createdNodes++;
+	const product = createProduct(left, right, options);
 
-			node = builder.createNode(createdNodes);
-			indexTranslatorCache[key] = node;
-			indexBackTranslatorMap.set(node, [leftNode, rightNode]);
+	const result = new Set<L>();
+	traverse(product.indexOf(left.initial, right.initial), index => {
+		const [leftNode, rightNode] = product.pairs[index];
+		if (right.isFinal(rightNode)) {
+			result.add(leftNode);
+		}
+		return product.getOut(index).map(([to]) => to);
+	});
+	return result;
+}
 
-			if (left.isFinal(leftNode) && right.isFinal(rightNode)) {
-				finals.add(node);
+/**
+ * Returns all states of the left FA from which a final state can be reached by reading a word accepted by the right
+ * FA.
+ *
+ * These are the final states of the right quotient of the left FA by the right FA.
+ *
+ * @param left
+ * @param right
+ * @param options
+ */
+export function rightQuotientStates<L, R>(
+	left: FAIterator<L, ReadonlyMap<L, CharSet>>,
+	right: FAIterator<R, ReadonlyMap<R, CharSet>>,
+	options: undefined | Readonly<IntersectionOptions>
+): Set<L> {
+	left = faEnsurePureOut(left);
+	right = faEnsurePureOut(right);
+
+	const product = createProduct(left, right, options);
+
+	const roots: number[] = [];
+	for (const leftNode of faIterateStates(faMapOut(left, out => out.keys()))) {
+		roots.push(product.indexOf(leftNode, right.initial));
+	}
+
+	// create all pairs reachable from the roots and remember their incoming edges
+	const inEdges = new Map<number, number[]>();
+	for (let from = 0; from < product.pairs.length; from++) {
+		for (const [to] of product.getOut(from)) {
+			let edges = inEdges.get(to);
+			if (edges === undefined) {
+				edges = [];
+				inEdges.set(to, edges);
 			}
+			edges.push(from);
 		}
-		return node;
 	}
 
-	function translateBack(node: S): Tuple<L, R> {
-		const tuple = indexBackTranslatorMap.get(node);
-		if (tuple === undefined) {
-			throw new Error("All created nodes have to be indexed.");
+	// go backwards from all final pairs
+	const canReachFinal = new Set<number>();
+	const stack: number[] = [];
+	product.pairs.forEach(([leftNode, rightNode], index) => {
+		if (left.isFinal(leftNode) && right.isFinal(rightNode)) {
+			canReachFinal.add(index);
+			stack.push(index);
+		}
+	});
+	while (stack.length > 0) {
+		for (const from of inEdges.get(stack.pop()!) ?? []) {
+			if (!canReachFinal.has(from)) {
+				canReachFinal.add(from);
+				stack.push(from);
+			}
 		}
-		return tuple;
 	}
 
+	const result = new Set<L>();
+	for (const index of roots) {
+		if (canReachFinal.has(index)) {
+			result.add(product.pairs[index][0]);
+		}
+	}
+	return result;
+}
+
+/**
+ * The product of two FA. Pairs of states are identified by their index and are only created as they are needed.
+ */
+interface Product<L, R> {
+	/**
+	 * All pairs created so far in the order in which they were created.
+	 */
+	readonly pairs: readonly (readonly [L, R])[];
+	/**
+	 * Returns the index of the given pair. If the pair hasn't been created yet, it will be created.
+	 */
+	readonly indexOf: (leftNode: L, rightNode: R) => number;
+	/**
+	 * Returns the non-empty intersections of all outgoing transitions of the pair with the given index. All target
+	 * pairs will be created.
+	 */
+	readonly getOut: (index: number) => (readonly [number, CharSet])[];
+}
+
+/**
+ * Creates the product of the two given FA.
+ *
+ * If more than the maximum number of nodes given by the options would be created, a `TooManyNodesError` will be
+ * thrown.
+ *
+ * @param left
+ * @param right
+ * @param options
+ */
+function createProduct<L, R>(
+	left: FAIterator<L, ReadonlyMap<L, CharSet>>,
+	right: FAIterator<R, ReadonlyMap<R, CharSet>>,
+	options: undefined | Readonly<IntersectionOptions>
+): Product<L, R> {
+	const maxNodes = options?.maxNodes ?? Infinity;
+
+	const leftToIndex = createIndexer<L>();
+	const rightToIndex = createIndexer<R>();
 	const intersect = createCharSetIntersectFn();
 
-	// add edges
+	const pairs: (readonly [L, R])[] = [];
+	const indexCache: Record<string, number | undefined> = {};
 
-	function addOutgoing(from: S): void {
-		const tuple = translateBack(from);
-		const leftOut = left.getOut(tuple[0]);
-		const rightOut = right.getOut(tuple[1]);
+	function indexOf(leftNode: L, rightNode: R): number {
+		const key = "" + leftToIndex(leftNode) + ";" + rightToIndex(rightNode);
+		let index = indexCache[key];
+		if (index === undefined) {
+			if (pairs.length > maxNodes) {
+				throw new TooManyNodesError();
+			}
+			index = pairs.length;
+			indexCache[key] = index;
+			pairs.push([leftNode, rightNode]);
+		}
+		return index;
+	}
 
-		for (const [leftTo, leftTransition] of leftOut) {
+	function getOut(index: number): (readonly [number, CharSet])[] {
+		const [leftNode, rightNode] = pairs[index];
+		const rightOut = right.getOut(rightNode);
+
+		const out: (readonly [number, CharSet])[] = [];
+		for (const [leftTo, leftTransition] of left.getOut(leftNode)) {
 			for (const [rightTo, rightTransition] of rightOut) {
 				const transition = intersect(leftTransition, rightTransition);
 				if (transition) {
-					builder.linkNodes(from, translate(leftTo, rightTo), transition);
+					out.push([indexOf(leftTo, rightTo), transition]);
 				}
 			}
 		}
+		return out;
 	}
 
-	return {
-		initial,
-		getOut(node: S): S {
-			addOutgoing(node);
-			return node;
-		},
-		isFinal(node: S): boolean {
-			return finals.has(node);
-		},
-	};
+	return { pairs, indexOf, getOut };
 }
 
 const HASH_MASK = 0xffff;
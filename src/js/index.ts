@@ -3,3 +3,5 @@ export * from "./js-char-set";
 export * from "./js-to-literal";
 export * from "./js-flags";
 export * from "./parser";
+export * from "./js-matcher";
+export * from "./redos";
@@ -0,0 +1,193 @@
+import { ReadonlyDFA } from "../dfa";
+import { ExportableFA, faExport } from "../fa-util";
+import { UNICODE_MAXIMUM } from "./js-util";
+
+export interface ToMatcherSourceOptions {
+	/**
+	 * The name of the generated function.
+	 *
+	 * The name has to be a valid identifier that is not a reserved word. Otherwise, a `RangeError` will be thrown.
+	 *
+	 * By default, this value is set to `"matches"`.
+	 */
+	name?: string;
+}
+
+/**
+ * All words that cannot be used as the name of a function declaration in strict mode code.
+ */
+const RESERVED_WORDS: ReadonlySet<string> = new Set([
+	// keywords
+	"await",
+	"break",
+	"case",
+	"catch",
+	"class",
+	"const",
+	"continue",
+	"debugger",
+	"default",
+	"delete",
+	"do",
+	"else",
+	"enum",
+	"export",
+	"extends",
+	"finally",
+	"for",
+	"function",
+	"if",
+	"import",
+	"in",
+	"instanceof",
+	"new",
+	"return",
+	"super",
+	"switch",
+	"this",
+	"throw",
+	"try",
+	"typeof",
+	"var",
+	"void",
+	"while",
+	"with",
+	"yield",
+	// literals
+	"null",
+	"true",
+	"false",
+	// reserved in strict mode
+	"implements",
+	"interface",
+	"let",
+	"package",
+	"private",
+	"protected",
+	"public",
+	"static",
+	"arguments",
+	"eval",
+]);
+
+/**
+ * Returns the source code of a standalone JavaScript function that decides whether a given word is accepted by the
+ * given DFA.
+ *
+ * The generated function has no dependencies and takes exactly one argument which can either be a string or an array
+ * of characters. If the maximum character of the DFA is `0x10FFFF`, strings will be interpreted as a sequence of
+ * Unicode code points. Otherwise, strings will be interpreted as a sequence of UTF-16 code units.
+ *
+ * The generated function is a state machine that uses a binary search over the character ranges of each state, so the
+ * runtime of the function is linear in the length of the word.
+ *
+ * @param dfa
+ * @param options
+ */
+export function toMatcherSource(dfa: ReadonlyDFA, options?: Readonly<ToMatcherSourceOptions>): string {
+	const name = options?.name ?? "matches";
+	if (!/^[A-Za-z_$][\w$]*$/.test(name) || RESERVED_WORDS.has(name)) {
+		throw new RangeError(`${JSON.stringify(name)} is not a valid function name.`);
+	}
+
+	const unicode = dfa.maxCharacter === UNICODE_MAXIMUM;
+
+	return faExport(dfa.transitionIterator(), fa => {
+		const lines: string[] = [];
+		lines.push(`function ${name}(input) {`);
+		lines.push('\tconst isString = typeof input === "string";');
+		lines.push("\tconst length = input.length;");
+		lines.push(`\tlet state = ${fa.initial};`);
+		lines.push("\tfor (let i = 0; i < length; i++) {");
+		if (unicode) {
+			lines.push("\t\tconst c = isString ? input.codePointAt(i) : input[i];");
+			lines.push("\t\tif (isString && c > 0xffff) i++;");
+		} else {
+			lines.push("\t\tconst c = isString ? input.charCodeAt(i) : input[i];");
+		}
+		lines.push("\t\tswitch (state) {");
+		for (let state = 0; state < fa.stateCount; state++) {
+			const segments = getSegments(fa, state);
+			if (segments.length === 1 && segments[0].target === null) {
+				// states without outgoing transitions will be handled by the default case
+				continue;
+			}
+			lines.push(`\t\t\tcase ${state}:`);
+			printSegments(segments, 0, segments.length - 1, "\t\t\t\t", lines);
+			lines.push("\t\t\t\tbreak;");
+		}
+		lines.push("\t\t\tdefault:");
+		lines.push("\t\t\t\treturn false;");
+		lines.push("\t\t}");
+		lines.push("\t}");
+
+		const finals: string[] = [];
+		for (let state = 0; state < fa.stateCount; state++) {
+			if (fa.isFinal(state)) {
+				finals.push(`state === ${state}`);
+			}
+		}
+		lines.push(`\treturn ${finals.length === 0 ? "false" : finals.join(" || ")};`);
+		lines.push("}");
+
+		return lines.join("\n");
+	});
+}
+
+interface Segment {
+	readonly max: number;
+	readonly target: number | null;
+}
+
+/**
+ * Returns a list of segments that partitions all non-negative numbers.
+ */
+function getSegments(fa: ExportableFA, state: number): Segment[] {
+	const ranges: { min: number; max: number; target: number }[] = [];
+	for (const [to, cs] of fa.getOut(state)) {
+		for (const { min, max } of cs.ranges) {
+			ranges.push({ min, max, target: to });
+		}
+	}
+	ranges.sort((a, b) => a.min - b.min);
+
+	const segments: Segment[] = [];
+	let next = 0;
+	for (const { min, max, target } of ranges) {
+		if (min > next) {
+			segments.push({ max: min - 1, target: null });
+		}
+		segments.push({ max, target });
+		next = max + 1;
+	}
+	// characters greater than the maximum character are rejected as well
+	segments.push({ max: Infinity, target: null });
+	return segments;
+}
+
+function printSegments(segments: readonly Segment[], lo: number, hi: number, indent: string, lines: string[]): void {
+	const action = ({ target }: Segment): string => (target === null ? "return false;" : `state = ${target};`);
+
+	if (hi - lo < 4) {
+		// the maximum of the last segment is never printed
+		if (lo === hi) {
+			lines.push(indent + action(segments[lo]));
+			return;
+		}
+		for (let i = lo; i < hi; i++) {
+			lines.push(`${indent}${i === lo ? "" : "else "}if (c <= ${toHex(segments[i].max)}) ${action(segments[i])}`);
+		}
+		lines.push(`${indent}else ${action(segments[hi])}`);
+	} else {
+		const mid = (lo + hi) >> 1;
+		lines.push(`${indent}if (c <= ${toHex(segments[mid].max)}) {`);
+		printSegments(segments, lo, mid, indent + "\t", lines);
+		lines.push(`${indent}} else {`);
+		printSegments(segments, mid + 1, hi, indent + "\t", lines);
+		lines.push(`${indent}}`);
+	}
+}
+
+function toHex(value: number): string {
+	return "0x" + value.toString(16);
+}
@@ -11,7 +11,7 @@ import {
 	CharacterClass,
 	desimplify,
 } from "../ast";
-import { RegExpParser, AST } from "regexpp";
+import { RegExpParser, AST, visitRegExpAST } from "regexpp";
 import { assertNever } from "../util";
 import { createAssertion } from "./js-assertion";
 import { createCharSet } from "./js-char-set";
@@ -74,6 +74,31 @@ export interface ParseOptions {
 	 * These optimization might prevent that certain backreferences or lookarounds from throwing an error.
 	 */
 	disableOptimizations?: boolean;
+	/**
+	 * How the parser will handle capturing groups.
+	 *
+	 * `"ignore"`: This is the default option. Capturing groups will be treated like non-capturing groups.
+	 *
+	 * `"keep"`: The parser will create an alternation for every capturing group that can be reached and set its
+	 * `capture` property to the number of the group. These alternations will never be inlined, so the boundaries of
+	 * all capturing groups are preserved.
+	 *
+	 * E.g. `(a)|(?:b)` will be parsed as `([61])|[62]`.
+	 */
+	captures?: "ignore" | "keep";
+	/**
+	 * How the parser will handle lazy quantifiers.
+	 *
+	 * `"greedy"`: This is the default option. Lazy quantifiers will be treated like greedy quantifiers. This doesn't
+	 * change the language of the RE but it does change which paths leftmost-first search and capturing groups will
+	 * take.
+	 *
+	 * `"throw"`: The parser will throw an error when encountering a lazy quantifier. Lazy quantifiers with the same
+	 * minimum and maximum (e.g. `a{2}?`) will not cause an error since they only match one way.
+	 *
+	 * E.g. `a+?` will throw but `a{0}?` will not because the quantifier will be removed anyway.
+	 */
+	lazyQuantifiers?: "greedy" | "throw";
 }
 
 export interface Literal {
@@ -105,6 +130,7 @@ export class Parser implements Literal {
 
 	private readonly _charCache = new Map<string, CharSet>();
 	private readonly _resolveCache = new Map<AST.CapturingGroup | AST.Backreference, number[] | null>();
+	private _captureNumbers: Map<AST.CapturingGroup, number> | undefined = undefined;
 
 	private constructor(ast: RegexppAst) {
 		this.source = ast.pattern.raw;
@@ -465,22 +491,35 @@ export class Parser implements Literal {
 			alternatives: [],
 			source: getSource(element),
 		};
+		if (element.type === "CapturingGroup" && context.captures === "keep") {
+			alteration.capture = this.getCaptureNumber(element);
+		}
 		parent.elements.push(alteration);
 		this.addAlternatives(element.alternatives, alteration, context);
 
 		if (!context.disableOptimizations) {
 			if (alteration.alternatives.length === 1) {
-				// just add the elements of the alternative to the parent.
-				// This will make everything just work without any additional checks
+				const concat = alteration.alternatives[0];
 
-				// remove this alternation
-				parent.elements.pop();
+				if (alteration.capture === undefined) {
+					// just add the elements of the alternative to the parent.
+					// This will make everything just work without any additional checks
 
-				const concat = alteration.alternatives[0];
-				for (const e of concat.elements) {
-					// set new parent
-					e.parent = parent;
-					parent.elements.push(e);
+					// remove this alternation
+					parent.elements.pop();
+
+					for (const e of concat.elements) {
+						// set new parent
+						e.parent = parent;
+						parent.elements.push(e);
+					}
+				} else if (concat.elements.length === 1) {
+					const first = concat.elements[0];
+					if (first.type === "CharacterClass" && first.characters.isEmpty) {
+						// the capturing group can never be matched, so replace it with the empty character class
+						parent.elements.pop();
+						this.addEmptyCharacterClass(element, parent, context);
+					}
 				}
 			}
 		}
@@ -500,6 +539,10 @@ export class Parser implements Literal {
 			}
 		}
 
+		if (!element.greedy && min !== max && context.lazyQuantifiers === "throw") {
+			throw new Error("Lazy quantifiers are not supported.");
+		}
+
 		const quant: Quantifier = {
 			type: "Quantifier",
 			parent,
@@ -512,7 +555,10 @@ export class Parser implements Literal {
 
 		const qElement = element.element;
 
-		if ((!context.disableOptimizations && qElement.type === "CapturingGroup") || qElement.type === "Group") {
+		if (
+			(!context.disableOptimizations && qElement.type === "CapturingGroup" && context.captures !== "keep") ||
+			qElement.type === "Group"
+		) {
 			this.addAlternatives(qElement.alternatives, quant, context);
 		} else {
 			const concat: Concatenation = {
@@ -549,6 +595,24 @@ export class Parser implements Literal {
 		}
 	}
 
+	private getCaptureNumber(element: AST.CapturingGroup): number {
+		if (this._captureNumbers === undefined) {
+			const numbers = new Map<AST.CapturingGroup, number>();
+			visitRegExpAST(this.ast.pattern, {
+				onCapturingGroupEnter(group) {
+					numbers.set(group, numbers.size + 1);
+				},
+			});
+			this._captureNumbers = numbers;
+		}
+
+		const number = this._captureNumbers.get(element);
+		if (number === undefined) {
+			throw new Error("The capturing group is not part of the AST of this parser.");
+		}
+		return number;
+	}
+
 	private addEmptyCharacterClass(node: SourceLocation, parent: Concatenation, context: ParserContext): void {
 		const char: CharacterClass = {
 			type: "CharacterClass",
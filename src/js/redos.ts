@@ -0,0 +1,471 @@
+import { findExponentialAmbiguities, findPolynomialAmbiguities } from "../ambiguity";
+import {
+	Assertion,
+	CharacterClass,
+	Concatenation,
+	Element,
+	Expression,
+	Node as AstNode,
+	Quantifier,
+	SourceLocation,
+} from "../ast";
+import { CharSet } from "../char-set";
+import { getBaseSets } from "../char-util";
+import { FAIterator, TooManyNodesError } from "../finite-automaton";
+import { assertNever } from "../util";
+import { fromUnicodeToString, fromUTF16ToString, pickMostReadableWord } from "../words";
+import { UNICODE_MAXIMUM } from "./js-util";
+import { ParseResult } from "./parser";
+
+const DEFAULT_MAX_NODES = 100_000;
+
+export interface ReDoSOptions {
+	/**
+	 * The maximum number of nodes the analysis is allowed to create.
+	 *
+	 * This limits the size of the automaton created for the regex and the number of pairs and triples of states visited
+	 * by the ambiguity searches. If the limit is exceeded, a `TooManyNodesError` will be thrown.
+	 *
+	 * By default, this value is set to `100000`.
+	 */
+	maxNodes?: number;
+}
+
+/**
+ * A part of a regex that can cause catastrophic backtracking.
+ */
+export interface ReDoSFinding {
+	/**
+	 * Whether the number of ways the regex can match a part of the input grows exponentially or polynomially with the
+	 * length of the input.
+	 */
+	readonly kind: "exponential" | "polynomial";
+	/**
+	 * The degree of ambiguity.
+	 *
+	 * For polynomial findings, the number of ways the pump of the attack string can be matched grows with `O(n^degree)`
+	 * where `n` is the number of repetitions of the pump. For exponential findings, this is `Infinity`.
+	 */
+	readonly degree: number;
+	/**
+	 * The source locations of all character classes that can be used to match the pump of the attack string in more
+	 * than one way.
+	 */
+	readonly locations: readonly SourceLocation[];
+	/**
+	 * The source locations of all quantifiers that contain one of the character classes of {@link locations} and can
+	 * repeat their content more than once.
+	 */
+	readonly quantifiers: readonly SourceLocation[];
+	readonly attack: AttackString;
+}
+
+/**
+ * A string of the form `prefix + pump.repeat(n) + suffix`.
+ *
+ * There is no match of the regex that starts at the start of the string, but a backtracking engine has to try all the
+ * ways the regex can match the repeated pump before it can give up on that position.
+ */
+export interface AttackString {
+	readonly prefix: string;
+	readonly pump: string;
+	readonly suffix: string;
+}
+
+/**
+ * Returns all parts of the given regex that can cause exponential or polynomial backtracking.
+ *
+ * The findings are sorted by severity: exponential findings come first and polynomial findings are sorted by
+ * descending degree. A finding is only reported if an attack string could be found for it.
+ *
+ * The analysis is done on an NFA that has a state for every character class of the regex. Different ways of reaching
+ * a character class (e.g. by repeating an inner or an outer quantifier) are kept as parallel transitions, so the NFA
+ * has exactly as many paths for a word as a backtracking engine has ways to match it. Assertions are handled as
+ * follows:
+ *
+ * - The start and end of input assertions (`^` and `$` without the `m` flag) are fully supported.
+ * - All other assertions are assumed to always accept. This may cause findings that can't be exploited.
+ *
+ * Note that a backtracking engine will try to match an unanchored regex at every position of the input, so the
+ * runtime for an attack string is usually one degree higher than the degree of the finding.
+ *
+ * @param result
+ * @param options
+ */
+export function analyzeReDoS(result: ParseResult, options?: Readonly<ReDoSOptions>): ReDoSFinding[] {
+	const maxNodes = options?.maxNodes ?? DEFAULT_MAX_NODES;
+
+	const automaton = createPositionAutomaton(result.expression, maxNodes);
+	const toString = result.maxCharacter === UNICODE_MAXIMUM ? fromUnicodeToString : fromUTF16ToString;
+	const iter: FAIterator<number, Iterable<[number, CharSet]>> = {
+		initial: 0,
+		getOut: state => automaton.out[state],
+		isFinal: state => automaton.final[state],
+	};
+
+	const findings: ReDoSFinding[] = [];
+	function addFinding(
+		kind: ReDoSFinding["kind"],
+		degree: number,
+		states: readonly number[],
+		prefix: readonly CharSet[],
+		pump: readonly CharSet[]
+	): void {
+		const prefixWord = pickMostReadableWord(prefix)!;
+		const pumpWord = pickMostReadableWord(pump)!;
+		const suffixWord = findRejectingSuffix(automaton, [...prefixWord, ...pumpWord, ...pumpWord], maxNodes);
+		if (suffixWord === undefined) {
+			// the regex can't be forced to backtrack
+			return;
+		}
+
+		const elements = new Set<CharacterClass>();
+		for (const state of states) {
+			if (state > 0) {
+				elements.add(automaton.positions[state - 1]);
+			}
+		}
+
+		findings.push({
+			kind,
+			degree,
+			locations: sortLocations([...elements].map(e => e.source)),
+			quantifiers: sortLocations(getQuantifiers(elements).map(q => q.source)),
+			attack: { prefix: toString(prefixWord), pump: toString(pumpWord), suffix: toString(suffixWord) },
+		});
+	}
+
+	for (const { states, prefix, pump } of findExponentialAmbiguities(iter, maxNodes)) {
+		addFinding("exponential", Infinity, states, prefix, pump);
+	}
+	const polynomial = findPolynomialAmbiguities(iter, maxNodes).sort((a, b) => b.degree - a.degree);
+	for (const { degree, states, prefix, pump } of polynomial) {
+		addFinding("polynomial", degree, states, prefix, pump);
+	}
+
+	return findings;
+}
+
+interface Node {
+	readonly id: number;
+	readonly out: Edge[];
+}
+type Edge =
+	| { readonly type: "char"; readonly element: CharacterClass; readonly to: Node }
+	| { readonly type: "epsilon" | "start" | "end"; readonly to: Node };
+
+interface PositionAutomaton {
+	/**
+	 * The character classes of the positions. The state `0` is the initial state and the state `i + 1` is the state
+	 * after the position `i` was matched.
+	 */
+	readonly positions: readonly CharacterClass[];
+	readonly out: readonly (readonly [number, CharSet][])[];
+	/**
+	 * Whether the regex accepts in the state without having to be at the end of the input.
+	 */
+	readonly final: readonly boolean[];
+	/**
+	 * Whether the regex accepts in the state if the end of the input was reached.
+	 */
+	readonly finalAtEnd: readonly boolean[];
+}
+
+function createPositionAutomaton(expression: Expression, maxNodes: number): PositionAutomaton {
+	let nodeCount = 0;
+	const nodes: Node[] = [];
+	function createNode(): Node {
+		if (nodeCount >= maxNodes) {
+			throw new TooManyNodesError(`The analysis is not allowed to create more than ${maxNodes} nodes.`);
+		}
+		const node: Node = { id: nodeCount++, out: [] };
+		nodes.push(node);
+		return node;
+	}
+	function linkEpsilon(from: Node, to: Node): void {
+		from.out.push({ type: "epsilon", to });
+	}
+
+	// All `build*` functions add the transitions of the given RE node starting at the given node and return the node
+	// that is reached after the RE node matched. Every path of the backtracking engine is a distinct path here.
+	function buildAlternatives(alternatives: readonly Concatenation[], start: Node): Node {
+		if (alternatives.length === 1) {
+			return buildConcatenation(alternatives[0], start);
+		}
+
+		const end = createNode();
+		for (const alternative of alternatives) {
+			const alternativeStart = createNode();
+			linkEpsilon(start, alternativeStart);
+			linkEpsilon(buildConcatenation(alternative, alternativeStart), end);
+		}
+		return end;
+	}
+	function buildConcatenation(concat: Concatenation, start: Node): Node {
+		let current = start;
+		for (const element of concat.elements) {
+			current = buildElement(element, current);
+		}
+		return current;
+	}
+	function buildElement(element: Element, start: Node): Node {
+		switch (element.type) {
+			case "CharacterClass": {
+				const end = createNode();
+				start.out.push({ type: "char", element, to: end });
+				return end;
+			}
+			case "Alternation":
+				return buildAlternatives(element.alternatives, start);
+			case "Quantifier":
+				return buildQuantifier(element, start);
+			case "Assertion": {
+				const end = createNode();
+				start.out.push({ type: getAssertionType(element), to: end });
+				return end;
+			}
+			default:
+				throw assertNever(element);
+		}
+	}
+	function buildQuantifier(element: Quantifier, start: Node): Node {
+		const { min, max, alternatives } = element;
+
+		if (max === Infinity) {
+			// `x{n,}` is built as `x{n-1}x+` where the loop of `x+` starts a new path for every iteration
+			let current = start;
+			for (let i = 1; i < min; i++) {
+				current = buildAlternatives(alternatives, current);
+			}
+			const bodyStart = createNode();
+			linkEpsilon(current, bodyStart);
+			const bodyEnd = buildAlternatives(alternatives, bodyStart);
+			linkEpsilon(bodyEnd, bodyStart);
+			const end = createNode();
+			linkEpsilon(bodyEnd, end);
+			if (min === 0) {
+				linkEpsilon(current, end);
+			}
+			return end;
+		}
+
+		let current = start;
+		for (let i = 0; i < min; i++) {
+			current = buildAlternatives(alternatives, current);
+		}
+		if (min < max) {
+			const splits: Node[] = [];
+			for (let i = min; i < max; i++) {
+				splits.push(current);
+				current = buildAlternatives(alternatives, current);
+			}
+			const end = createNode();
+			linkEpsilon(current, end);
+			splits.forEach(s => linkEpsilon(s, end));
+			return end;
+		}
+		return current;
+	}
+
+	const initial = createNode();
+	const final = buildAlternatives(expression.alternatives, initial);
+
+	const charEdges = new Map<Edge, number>();
+	const positions: CharacterClass[] = [];
+	const sources: Node[] = [initial];
+	for (const node of nodes) {
+		for (const edge of node.out) {
+			if (edge.type === "char") {
+				charEdges.set(edge, positions.length);
+				positions.push(edge.element);
+				sources.push(edge.to);
+			}
+		}
+	}
+
+	const out: [number, CharSet][][] = [];
+	const finalStates: boolean[] = [];
+	const finalAtEnd: boolean[] = [];
+	sources.forEach((source, state) => {
+		const allowStart = state === 0;
+
+		const transitions: [number, CharSet][] = [];
+		const counts = countEpsilonPaths(source, allowStart, false);
+		counts.forEach((count, node) => {
+			for (const edge of node.out) {
+				if (edge.type === "char") {
+					for (let i = 0; i < count; i++) {
+						transitions.push([charEdges.get(edge)! + 1, edge.element.characters]);
+					}
+				}
+			}
+		});
+		out.push(transitions);
+
+		finalStates.push(counts.has(final));
+		finalAtEnd.push(countEpsilonPaths(source, allowStart, true).has(final));
+	});
+
+	return { positions, out, final: finalStates, finalAtEnd };
+}
+
+function getAssertionType(element: Assertion): "epsilon" | "start" | "end" {
+	// `^` and `$` without the `m` flag are the only assertions that assert all characters
+	if (
+		element.negate &&
+		element.alternatives.length === 1 &&
+		element.alternatives[0].elements.length === 1 &&
+		element.alternatives[0].elements[0].type === "CharacterClass" &&
+		element.alternatives[0].elements[0].characters.isAll
+	) {
+		return element.kind === "ahead" ? "end" : "start";
+	}
+	return "epsilon";
+}
+
+/**
+ * Returns the number of epsilon paths from the given node to all reachable nodes.
+ *
+ * Paths that would repeat a node are ignored, so the number of paths is finite. All numbers are capped at 2 because
+ * the ambiguity analysis only needs to distinguish between one and many paths.
+ */
+function countEpsilonPaths(source: Node, allowStart: boolean, allowEnd: boolean): Map<Node, number> {
+	const canTake = (edge: Edge): boolean =>
+		edge.type === "epsilon" || (edge.type === "start" && allowStart) || (edge.type === "end" && allowEnd);
+
+	// DFS to find all back edges and a topological order of the remaining DAG
+	const onStack = new Set<Node>([source]);
+	const visited = new Set<Node>([source]);
+	const backEdges = new Set<Edge>();
+	const postOrder: Node[] = [];
+	const stack: [Node, number][] = [[source, 0]];
+	while (stack.length > 0) {
+		const top = stack[stack.length - 1];
+		const [node, index] = top;
+		if (index < node.out.length) {
+			top[1]++;
+			const edge = node.out[index];
+			if (!canTake(edge)) {
+				continue;
+			}
+			if (onStack.has(edge.to)) {
+				backEdges.add(edge);
+			} else if (!visited.has(edge.to)) {
+				visited.add(edge.to);
+				onStack.add(edge.to);
+				stack.push([edge.to, 0]);
+			}
+		} else {
+			stack.pop();
+			onStack.delete(node);
+			postOrder.push(node);
+		}
+	}
+
+	const counts = new Map<Node, number>([[source, 1]]);
+	for (let i = postOrder.length - 1; i >= 0; i--) {
+		const node = postOrder[i];
+		const count = counts.get(node)!;
+		for (const edge of node.out) {
+			if (canTake(edge) && !backEdges.has(edge)) {
+				counts.set(edge.to, Math.min(2, (counts.get(edge.to) ?? 0) + count));
+			}
+		}
+	}
+	return counts;
+}
+
+/**
+ * Returns a suffix such that the regex can't match any prefix of the given word followed by the suffix.
+ *
+ * If the regex matches a prefix of the word or if no such suffix can be found, `undefined` will be returned.
+ */
+function findRejectingSuffix(
+	automaton: PositionAutomaton,
+	word: readonly number[],
+	maxNodes: number
+): number[] | undefined {
+	function step(states: readonly number[], char: number): number[] {
+		const next = new Set<number>();
+		for (const state of states) {
+			for (const [to, characters] of automaton.out[state]) {
+				if (characters.has(char)) {
+					next.add(to);
+				}
+			}
+		}
+		return [...next].sort((a, b) => a - b);
+	}
+	const isFinal = (states: readonly number[]): boolean => states.some(s => automaton.final[s]);
+	const isFinalAtEnd = (states: readonly number[]): boolean => states.some(s => automaton.finalAtEnd[s]);
+
+	let current: number[] = [0];
+	for (const char of word) {
+		if (isFinal(current)) {
+			return undefined;
+		}
+		current = step(current, char);
+	}
+	if (isFinal(current)) {
+		return undefined;
+	}
+
+	// BFS over the sets of states reachable after the word
+	const allCharacters = automaton.positions.map(p => p.characters);
+	const baseSets = [...getBaseSets(allCharacters)];
+	if (allCharacters.length > 0) {
+		const rest = allCharacters.reduce((a, b) => a.union(b)).negate();
+		if (!rest.isEmpty) {
+			baseSets.push(rest);
+		}
+	}
+	const chars = baseSets.map(set => pickMostReadableWord([set])![0]);
+
+	const parents = new Map<string, [string, number] | null>([[current.join(), null]]);
+	let queue: number[][] = [current];
+	while (queue.length > 0) {
+		const next: number[][] = [];
+		for (const states of queue) {
+			const key = states.join();
+			if (!isFinalAtEnd(states)) {
+				const suffix: number[] = [];
+				for (let p = parents.get(key)!; p !== null; p = parents.get(p[0])!) {
+					suffix.push(p[1]);
+				}
+				return suffix.reverse();
+			}
+
+			for (const char of chars) {
+				const nextStates = step(states, char);
+				const nextKey = nextStates.join();
+				if (!parents.has(nextKey) && !isFinal(nextStates)) {
+					if (parents.size >= maxNodes) {
+						return undefined;
+					}
+					parents.set(nextKey, [key, char]);
+					next.push(nextStates);
+				}
+			}
+		}
+		queue = next;
+	}
+	return undefined;
+}
+
+function getQuantifiers(elements: Iterable<CharacterClass>): Quantifier[] {
+	const quantifiers = new Set<Quantifier>();
+	for (const element of elements) {
+		let node: AstNode | null = element.parent;
+		while (node !== null) {
+			if (node.type === "Quantifier" && node.max > 1) {
+				quantifiers.add(node);
+			}
+			node = node.parent;
+		}
+	}
+	return [...quantifiers];
+}
+
+function sortLocations(locations: SourceLocation[]): SourceLocation[] {
+	return locations.sort((a, b) => a.start - b.start || a.end - b.end);
+}
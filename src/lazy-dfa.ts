@@ -0,0 +1,260 @@
+import { CharMap } from "./char-map";
+import { CharRange, CharSet } from "./char-set";
+import { faEnsurePureOut } from "./fa-iterator";
+import { FAIterator, TransitionIterable } from "./finite-automaton";
+import { filterMut } from "./util";
+
+const DEFAULT_MAX_CACHED_STATES = 10_000;
+
+interface LazyState<T> {
+	readonly nodes: readonly T[];
+	readonly final: boolean;
+	/**
+	 * The already computed transitions of this state. `null` is the dead state which cannot reach any final state.
+	 */
+	readonly next: CharMap<LazyState<T> | null>;
+}
+
+/**
+ * A matcher that determinizes a given FA on the fly.
+ *
+ * States of the equivalent DFA are only created when a word that reaches them is tested. All created states and
+ * transitions are cached, so the runtime of `test` is linear in the length of the word once the cache is warm.
+ *
+ * The cache is bounded. If the maximum number of cached states is reached, the whole cache will be flushed and the
+ * states will be created again as they are needed. This means that even FA whose equivalent DFA is exponentially
+ * larger can be matched in linear time with respect to the length of the word. Frequent flushes will make matching
+ * slower but never exhaust memory.
+ */
+export class LazyDFA {
+	readonly maxCharacter: number;
+
+	private readonly _impl: LazyDFACache;
+
+	private constructor(impl: LazyDFACache, maxCharacter: number) {
+		this._impl = impl;
+		this.maxCharacter = maxCharacter;
+	}
+
+	/**
+	 * The number of states currently in the cache.
+	 */
+	get cachedStates(): number {
+		return this._impl.cachedStates;
+	}
+	/**
+	 * The number of times the cache had to be flushed because it was full.
+	 */
+	get flushes(): number {
+		return this._impl.flushes;
+	}
+
+	/**
+	 * Returns whether the FA of this matcher accepts the given word.
+	 *
+	 * @param word The characters of the word to test.
+	 */
+	test(word: Iterable<number>): boolean {
+		return this._impl.test(word);
+	}
+
+	/**
+	 * Removes all states from the cache.
+	 */
+	clearCache(): void {
+		this._impl.clear();
+	}
+
+	static fromFA(fa: TransitionIterable, options?: Readonly<LazyDFA.Options>): LazyDFA {
+		return LazyDFA.fromTransitionIterator(fa.transitionIterator(), { maxCharacter: fa.maxCharacter }, options);
+	}
+
+	static fromTransitionIterator<InputNode>(
+		iter: FAIterator<InputNode, ReadonlyMap<InputNode, CharSet>>,
+		faOptions: Readonly<{ maxCharacter: number }>,
+		options?: Readonly<LazyDFA.Options>
+	): LazyDFA {
+		const maxCachedStates = options?.maxCachedStates ?? DEFAULT_MAX_CACHED_STATES;
+		if (!(maxCachedStates >= 1)) {
+			throw new Error("The maximum number of cached states has to be at least 1.");
+		}
+
+		return new LazyDFA(
+			new LazyDFAImpl(faEnsurePureOut(iter), faOptions.maxCharacter, maxCachedStates),
+			faOptions.maxCharacter
+		);
+	}
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace LazyDFA {
+	export interface Options {
+		/**
+		 * The maximum number of states the cache can hold. If the cache is full, it will be flushed.
+		 *
+		 * The initial state is always cached.
+		 *
+		 * By default, this value is set to 10K states.
+		 */
+		maxCachedStates?: number;
+	}
+}
+
+/**
+ * The state cache of a lazy DFA independent of the type of the states of the underlying FA.
+ */
+interface LazyDFACache {
+	readonly cachedStates: number;
+	readonly flushes: number;
+	test(word: Iterable<number>): boolean;
+	clear(): void;
+}
+
+class LazyDFAImpl<T> implements LazyDFACache {
+	private readonly _cache = new Map<string, LazyState<T>>();
+	flushes: number = 0;
+	private _initial: LazyState<T>;
+
+	private readonly _iter: FAIterator<T, ReadonlyMap<T, CharSet>>;
+	private readonly _maxCharacter: number;
+	private readonly _maxCachedStates: number;
+	private readonly _idMap = new Map<T, number>();
+
+	constructor(iter: FAIterator<T, ReadonlyMap<T, CharSet>>, maxCharacter: number, maxCachedStates: number) {
+		this._iter = iter;
+		this._maxCharacter = maxCharacter;
+		this._maxCachedStates = maxCachedStates;
+		this._initial = this._createState([iter.initial]);
+	}
+
+	get cachedStates(): number {
+		return this._cache.size;
+	}
+
+	test(word: Iterable<number>): boolean {
+		const maxCharacter = this._maxCharacter;
+
+		let state = this._initial;
+		for (const char of word) {
+			if (!(Number.isInteger(char) && char >= 0 && char <= maxCharacter)) {
+				return false;
+			}
+
+			let next = state.next.get(char);
+			if (next === undefined) {
+				next = this._computeNext(state, char);
+			}
+			if (next === null) {
+				return false;
+			}
+			state = next;
+		}
+		return state.final;
+	}
+
+	clear(): void {
+		this._cache.clear();
+		this._initial = this._createState(this._initial.nodes);
+	}
+
+	private _computeNext(state: LazyState<T>, char: number): LazyState<T> | null {
+		// all characters in the range [min, max] will have the same target states
+		const range = { min: 0, max: this._maxCharacter };
+		const nodes: T[] = [];
+		for (const node of state.nodes) {
+			this._iter.getOut(node).forEach((cs, to) => {
+				if (narrowRange(cs, char, range)) {
+					nodes.push(to);
+				}
+			});
+		}
+
+		let next: LazyState<T> | null;
+		if (nodes.length === 0) {
+			next = null;
+		} else {
+			nodes.sort((a, b) => this._getId(a) - this._getId(b));
+			filterMut(nodes, (n, prev) => n !== prev);
+
+			const cached = this._cache.get(this._getKey(nodes));
+			if (cached !== undefined) {
+				next = cached;
+			} else {
+				if (this._cache.size >= this._maxCachedStates) {
+					this.flushes++;
+					this.clear();
+				}
+				next = this._createState(nodes);
+			}
+		}
+
+		state.next.setEvery(range, next);
+		return next;
+	}
+
+	private _createState(nodes: readonly T[]): LazyState<T> {
+		const state: LazyState<T> = {
+			nodes,
+			final: nodes.some(n => this._iter.isFinal(n)),
+			next: new CharMap(),
+		};
+		this._cache.set(this._getKey(nodes), state);
+		return state;
+	}
+
+	private _getId(node: T): number {
+		let id = this._idMap.get(node);
+		if (id === undefined) {
+			id = this._idMap.size;
+			this._idMap.set(node, id);
+		}
+		return id;
+	}
+	private _getKey(nodes: readonly T[]): string {
+		let key = "";
+		for (let i = 0, l = nodes.length; i < l; i++) {
+			key += "," + this._getId(nodes[i]).toString(16);
+		}
+		return key;
+	}
+}
+
+/**
+ * Returns whether the given character set contains the given character and narrows the given range such that all of
+ * its characters are either contained in the given character set or not contained.
+ *
+ * @param charSet
+ * @param char
+ * @param range
+ */
+function narrowRange(charSet: CharSet, char: number, range: { min: number; max: number }): boolean {
+	const ranges: readonly CharRange[] = charSet.ranges;
+
+	// binary search for the first range with `max >= char`
+	let low = 0;
+	let high = ranges.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (ranges[mid].max < char) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+
+	const r = ranges[low] as CharRange | undefined;
+	if (r !== undefined && r.min <= char) {
+		range.min = Math.max(range.min, r.min);
+		range.max = Math.min(range.max, r.max);
+		return true;
+	} else {
+		// the character is in the gap between the previous range and `r`
+		if (low > 0) {
+			range.min = Math.max(range.min, ranges[low - 1].max + 1);
+		}
+		if (r !== undefined) {
+			range.max = Math.min(range.max, r.min - 1);
+		}
+		return false;
+	}
+}
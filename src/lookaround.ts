@@ -0,0 +1,311 @@
+import { CharSet } from "./char-set";
+import { getBaseSets, invertCharMap } from "./char-util";
+import { DFA, ReadonlyDFA } from "./dfa";
+import { faEnsurePureOut } from "./fa-iterator";
+import { FAIterator } from "./finite-automaton";
+import { FABuilder } from "./intersection";
+import { cachedFunc } from "./util";
+
+/**
+ * A lookaround assertion that has been compiled into a DFA.
+ */
+export interface Lookaround {
+	readonly kind: "ahead" | "behind";
+	readonly negate: boolean;
+	/**
+	 * A DFA that decides the assertion.
+	 *
+	 * For lookaheads, this DFA has to accept the language `B[^]*` and, for lookbehinds, it has to accept the language
+	 * `[^]*B` where `B` is the body of the assertion.
+	 */
+	readonly dfa: ReadonlyDFA;
+}
+
+/**
+ * Returns the marker character of the lookaround with the given index.
+ *
+ * @param maxCharacter
+ * @param index
+ */
+export function getLookaroundMarker(maxCharacter: number, index: number): number {
+	return maxCharacter + 1 + index;
+}
+
+interface ClosureItem<T> {
+	readonly node: T;
+	readonly ahead: readonly DFA.ReadonlyNode[];
+}
+interface ProductState<T> {
+	readonly node: T;
+	readonly ahead: readonly DFA.ReadonlyNode[];
+	readonly behind: readonly (DFA.ReadonlyNode | null)[];
+	readonly closure: readonly ClosureItem<T>[];
+}
+
+/**
+ * A lazy algorithm that removes all lookaround markers from the given FA using the given FA builder to construct the
+ * resulting FA as the returned iterator is used to traverse it.
+ *
+ * The given FA is defined over an extended alphabet. All characters `<= maxCharacter` are normal characters and all
+ * characters `> maxCharacter` are markers for zero-width lookaround assertions. The lookaround with the index `i` is
+ * marked by the character `getLookaroundMarker(maxCharacter, i)`.
+ *
+ * The constructed FA accepts a word if the word can be extended to a word accepted by the given FA by inserting
+ * markers such that all inserted lookaround assertions are satisfied. Lookarounds are evaluated as if the word is the
+ * whole input string.
+ *
+ * The initial state of the given FA is not allowed to have incoming transitions.
+ *
+ * @param builder
+ * @param iter
+ * @param maxCharacter
+ * @param lookarounds
+ */
+export function lazyLookaroundProduct<S, T>(
+	builder: FABuilder<S, CharSet>,
+	iter: FAIterator<T, ReadonlyMap<T, CharSet>>,
+	maxCharacter: number,
+	lookarounds: readonly Lookaround[]
+): FAIterator<S, S> {
+	iter = faEnsurePureOut(iter);
+
+	// Lookaheads are handled like alternating automata. Each assertion that is passed spawns a new thread that has to
+	// accept the rest of the input. Since lookahead DFAs are deterministic, the state of all spawned threads is just a
+	// set of DFA states.
+	// Lookbehinds DFAs run in parallel to the FA over the whole word. When a lookbehind assertion is passed, we only
+	// have to check whether the current state of its DFA is final.
+	const aheadInitial: (DFA.ReadonlyNode | null)[] = [];
+	const behindIndex: number[] = [];
+	const behindInitial: DFA.ReadonlyNode[] = [];
+	for (const lookaround of lookarounds) {
+		let dfa = lookaround.dfa;
+		if (lookaround.kind === "ahead") {
+			if (lookaround.negate) {
+				const complement = dfa.copy();
+				complement.complement();
+				dfa = complement;
+			}
+			aheadInitial.push(dfa.isEmpty ? null : dfa.nodes.initial);
+			behindIndex.push(-1);
+		} else {
+			aheadInitial.push(null);
+			behindIndex.push(behindInitial.length);
+			behindInitial.push(dfa.nodes.initial);
+		}
+	}
+
+	const dfaNodeId = createIndexer<DFA.ReadonlyNode>();
+	const nodeId = createIndexer<T>();
+
+	const isDfaFinal = (node: DFA.ReadonlyNode): boolean => node.list.finals.has(node);
+	const isUniversal = cachedFunc<DFA.ReadonlyNode, boolean>(node => {
+		if (!isDfaFinal(node)) {
+			return false;
+		}
+		const entries = [...node.out];
+		return (
+			entries.length === 1 &&
+			entries[0][0].min === 0 &&
+			entries[0][0].max === maxCharacter &&
+			entries[0][1] === node
+		);
+	});
+	const getDfaOut = cachedFunc<DFA.ReadonlyNode, readonly CharSet[]>(node => [
+		...invertCharMap(node.out, maxCharacter).values(),
+	]);
+
+	interface SplitTransition {
+		readonly characters: CharSet | undefined;
+		readonly markers: readonly number[];
+	}
+	const splitTransition = cachedFunc<CharSet, SplitTransition>(cs => {
+		const ranges = cs.ranges.filter(r => r.min <= maxCharacter);
+		const characters =
+			ranges.length === 0
+				? undefined
+				: CharSet.empty(maxCharacter).union(
+						ranges.map(({ min, max }) => ({ min, max: Math.min(max, maxCharacter) }))
+				  );
+
+		const markers: number[] = [];
+		for (const { min, max } of cs.ranges) {
+			for (let i = Math.max(min, maxCharacter + 1); i <= max; i++) {
+				markers.push(i - maxCharacter - 1);
+			}
+		}
+
+		return { characters, markers };
+	});
+
+	function getAheadKey(ahead: readonly DFA.ReadonlyNode[]): string {
+		let key = "";
+		for (let i = 0, l = ahead.length; i < l; i++) {
+			key += "," + dfaNodeId(ahead[i]);
+		}
+		return key;
+	}
+	function normalizeAhead(ahead: DFA.ReadonlyNode[]): DFA.ReadonlyNode[] {
+		const result = [...new Set(ahead.filter(n => !isUniversal(n)))];
+		result.sort((a, b) => dfaNodeId(a) - dfaNodeId(b));
+		return result;
+	}
+
+	function getClosure(
+		node: T,
+		ahead: readonly DFA.ReadonlyNode[],
+		behind: readonly (DFA.ReadonlyNode | null)[]
+	): ClosureItem<T>[] {
+		const closure: ClosureItem<T>[] = [];
+		const visited = new Set<string>();
+
+		const stack: ClosureItem<T>[] = [{ node, ahead }];
+		let item;
+		while ((item = stack.pop())) {
+			const key = nodeId(item.node) + ";" + getAheadKey(item.ahead);
+			if (visited.has(key)) {
+				continue;
+			}
+			visited.add(key);
+			closure.push(item);
+
+			for (const [to, cs] of iter.getOut(item.node)) {
+				for (const marker of splitTransition(cs).markers) {
+					const lookaround = lookarounds[marker];
+					if (lookaround.kind === "behind") {
+						const state = behind[behindIndex[marker]];
+						const accepted = state !== null && isDfaFinal(state);
+						if (accepted !== lookaround.negate) {
+							stack.push({ node: to, ahead: item.ahead });
+						}
+					} else {
+						const initial = aheadInitial[marker];
+						if (initial !== null) {
+							stack.push({ node: to, ahead: normalizeAhead([...item.ahead, initial]) });
+						}
+					}
+				}
+			}
+		}
+
+		return closure;
+	}
+
+	// node translation
+	const { initial, finals } = builder;
+	const stateMap = new Map<S, ProductState<T>>();
+	const stateCache = new Map<string, S>();
+
+	function register(state: ProductState<T>, node: S): void {
+		stateMap.set(node, state);
+		if (state.closure.some(item => iter.isFinal(item.node) && item.ahead.every(isDfaFinal))) {
+			finals.add(node);
+		}
+	}
+	function getKey(node: T, ahead: readonly DFA.ReadonlyNode[], behind: readonly (DFA.ReadonlyNode | null)[]): string {
+		let key = nodeId(node) + ";" + getAheadKey(ahead) + ";";
+		for (let i = 0, l = behind.length; i < l; i++) {
+			const b = behind[i];
+			key += "," + (b === null ? "-" : dfaNodeId(b));
+		}
+		return key;
+	}
+
+	let createdNodes = 0;
+	function translate(node: T, ahead: readonly DFA.ReadonlyNode[], behind: readonly (DFA.ReadonlyNode | null)[]): S {
+		const key = getKey(node, ahead, behind);
+		let result = stateCache.get(key);
+		if (result === undefined) {
+			result = builder.createNode(++createdNodes);
+			stateCache.set(key, result);
+			register({ node, ahead, behind, closure: getClosure(node, ahead, behind) }, result);
+		}
+		return result;
+	}
+
+	stateCache.set(getKey(iter.initial, [], behindInitial), initial);
+	register(
+		{ node: iter.initial, ahead: [], behind: behindInitial, closure: getClosure(iter.initial, [], behindInitial) },
+		initial
+	);
+
+	function addOutgoing(from: S): void {
+		const state = stateMap.get(from);
+		if (state === undefined) {
+			throw new Error("All created nodes have to be registered.");
+		}
+
+		// determine the alphabet of this state
+		const sets = new Set<CharSet>();
+		for (const item of state.closure) {
+			for (const cs of iter.getOut(item.node).values()) {
+				const characters = splitTransition(cs).characters;
+				if (characters) {
+					sets.add(characters);
+				}
+			}
+		}
+		if (sets.size === 0) {
+			return;
+		}
+		// the characters also have to be distinguishable by all running lookaround DFAs
+		for (const item of state.closure) {
+			item.ahead.forEach(n => getDfaOut(n).forEach(cs => sets.add(cs)));
+		}
+		state.behind.forEach(n => n && getDfaOut(n).forEach(cs => sets.add(cs)));
+
+		for (const baseSet of getBaseSets(sets)) {
+			const char = baseSet.ranges[0].min;
+			const behind = state.behind.map(n => (n === null ? null : n.out.get(char) ?? null));
+
+			const targets = new Set<S>();
+			for (const item of state.closure) {
+				const ahead: DFA.ReadonlyNode[] = [];
+				let alive = true;
+				for (const n of item.ahead) {
+					const next = n.out.get(char);
+					if (next === undefined) {
+						alive = false;
+						break;
+					}
+					ahead.push(next);
+				}
+				if (!alive) {
+					continue;
+				}
+
+				let normalizedAhead: DFA.ReadonlyNode[] | undefined = undefined;
+				for (const [to, cs] of iter.getOut(item.node)) {
+					if (cs.has(char)) {
+						normalizedAhead = normalizedAhead ?? normalizeAhead(ahead);
+						targets.add(translate(to, normalizedAhead, behind));
+					}
+				}
+			}
+
+			targets.forEach(to => builder.linkNodes(from, to, baseSet));
+		}
+	}
+
+	return {
+		initial,
+		getOut(node: S): S {
+			addOutgoing(node);
+			return node;
+		},
+		isFinal(node: S): boolean {
+			return finals.has(node);
+		},
+	};
+}
+
+function createIndexer<T>(): (value: T) => number {
+	const map = new Map<T, number>();
+	return (value: T): number => {
+		let index = map.get(value);
+		if (index === undefined) {
+			index = map.size;
+			map.set(value, index);
+		}
+		return index;
+	};
+}
@@ -1,4 +1,4 @@
-import { Concatenation, Quantifier, Element, Simple, Expression } from "./ast";
+import { Concatenation, Quantifier, Element, Simple, Expression, Assertion, Node } from "./ast";
 import { CharSet } from "./char-set";
 import { assertNever, cachedFunc, traverse } from "./util";
 import {
@@ -9,6 +9,15 @@ import {
 	FAIterator,
 	TooManyNodesError,
 	IntersectionOptions,
+	EquivalenceResult,
+	Diagnosis,
+	SubsetResult,
+	WordLengthSet,
+	WordLengthsOptions,
+	ToDotOptions,
+	ToMermaidOptions,
+	ToGraphMLOptions,
+	FAJSON,
 } from "./finite-automaton";
 import {
 	faIterateStates,
@@ -17,10 +26,31 @@ import {
 	faMapOut,
 	faTraverse,
 	faLanguageIsFinite,
+	faMinWordLength,
+	faMaxWordLength,
+	faWordLengths,
 } from "./fa-iterator";
-import { faIterateWordSets, wordSetsToWords, faWithCharSetsToString } from "./fa-util";
+import {
+	faIterateWordSets,
+	faDiagnose,
+	wordSetsToWords,
+	faWithCharSetsToString,
+	faExport,
+	dotExporter,
+	mermaidExporter,
+	graphMLExporter,
+} from "./fa-util";
 import { faToRegex } from "./to-regex";
-import { lazyIntersection, TransitionMapBuilder } from "./intersection";
+import { jsonExporter, parseFAJSON } from "./fa-json";
+import { lazyIntersection, leftQuotientStates, rightQuotientStates, TransitionMapBuilder } from "./intersection";
+import { faIsEquivalentTo, faIsSubsetOf } from "./equivalence";
+import { pickMostReadableWord } from "./words";
+import { getLookaroundMarker, lazyLookaroundProduct, Lookaround } from "./lookaround";
+import { DFA } from "./dfa";
+import { partialDerivativeIterator } from "./derivative";
+import { editDistanceIterator } from "./edit-distance";
+import { bisimulationClasses, LabeledGraph, simulationPreorder } from "./simulation";
+import { findAmbiguousWordSet, findExponentialAmbiguities, findPolynomialAmbiguities } from "./ambiguity";
 
 /*
  * ####################################################################################################################
@@ -38,6 +68,8 @@ import { lazyIntersection, TransitionMapBuilder } from "./intersection";
  */
 
 const DEFAULT_MAX_NODES = 10_000;
+const DEFAULT_MAX_AMBIGUITY_NODES = 100_000;
+const DEFAULT_MAX_SIMULATION_PAIRS = 1_000_000;
 
 export interface ReadonlyNFA extends TransitionIterableFA {
 	readonly nodes: NFA.ReadonlyNodeList;
@@ -46,6 +78,41 @@ export interface ReadonlyNFA extends TransitionIterableFA {
 	stateIterator(): FAIterator<NFA.ReadonlyNode>;
 	transitionIterator(): FAIterator<NFA.ReadonlyNode, ReadonlyMap<NFA.ReadonlyNode, CharSet>>;
 
+	/**
+	 * Returns the degree of ambiguity of this NFA.
+	 *
+	 * An NFA is ambiguous if it accepts a word along two distinct paths. The degree of ambiguity describes how the
+	 * maximum number of accepting paths of a word grows with the length of the word:
+	 *
+	 * - `"unambiguous"`: Every accepted word has exactly one accepting path.
+	 * - `"finite"`: The number of accepting paths is bounded by a constant.
+	 * - `"polynomial"`: The number of accepting paths grows with `O(n^degree)`.
+	 * - `"exponential"`: The number of accepting paths grows exponentially.
+	 *
+	 * If this NFA is ambiguous, a word with at least two accepting paths will be returned as well.
+	 *
+	 * Only states that are reachable from the initial state and can reach a final state are considered.
+	 *
+	 * @param options
+	 */
+	ambiguity(options?: Readonly<NFA.AmbiguityOptions>): NFA.Ambiguity;
+
+	/**
+	 * Returns the number of words accepted by this NFA with a length between the given minimum and maximum length (both
+	 * inclusive).
+	 *
+	 * If no minimum length is given, all words will be counted. If only a minimum length is given, only words of this
+	 * length will be counted. If the maximum length is `Infinity`, the language of this NFA has to be finite.
+	 *
+	 * Since the paths of an NFA are not unique, the words of the equivalent DFA are counted. The given creation options
+	 * are used to create this DFA.
+	 *
+	 * @param minLength
+	 * @param maxLength
+	 * @param creationOptions
+	 */
+	countWords(minLength?: number, maxLength?: number, creationOptions?: Readonly<DFA.CreationOptions>): bigint;
+
 	/**
 	 * Create a mutable copy of this NFA.
 	 */
@@ -72,6 +139,21 @@ export class NFA implements ReadonlyNFA {
 		return this.isEmpty || faLanguageIsFinite(this.stateIterator());
 	}
 
+	get minWordLength(): number | undefined {
+		return faMinWordLength(this.stateIterator());
+	}
+	get maxWordLength(): number | undefined {
+		return faMaxWordLength(this.stateIterator());
+	}
+	wordLengths(options?: Readonly<WordLengthsOptions>): WordLengthSet {
+		return faWordLengths(this.stateIterator(), options?.maxNodes ?? DEFAULT_MAX_NODES);
+	}
+
+	countWords(minLength?: number, maxLength?: number, creationOptions?: Readonly<DFA.CreationOptions>): bigint {
+		// paths in NFA are not unique, so we have to count the words of the equivalent DFA
+		return DFA.fromFA(this, creationOptions).countWords(minLength, maxLength);
+	}
+
 	stateIterator(): FAIterator<NFA.ReadonlyNode> {
 		const initial: NFA.ReadonlyNode = this.nodes.initial;
 		const finals: ReadonlySet<NFA.ReadonlyNode> = this.nodes.finals;
@@ -91,6 +173,48 @@ export class NFA implements ReadonlyNFA {
 		});
 	}
 
+	ambiguity(options?: Readonly<NFA.AmbiguityOptions>): NFA.Ambiguity {
+		const maxNodes = options?.maxNodes ?? DEFAULT_MAX_AMBIGUITY_NODES;
+
+		// all states that can't reach a final state have to be ignored
+		const canReachFinal = new Set<NFA.ReadonlyNode>();
+		for (const final of this.nodes.finals) {
+			traverse<NFA.ReadonlyNode>(final, node => {
+				if (canReachFinal.has(node)) {
+					return [];
+				}
+				canReachFinal.add(node);
+				return node.in.keys();
+			});
+		}
+		if (!canReachFinal.has(this.nodes.initial)) {
+			return { kind: "unambiguous" };
+		}
+
+		const iter = faMapOut(this.transitionIterator(), out => [...out].filter(([to]) => canReachFinal.has(to)));
+
+		const exponential = findExponentialAmbiguities(iter, maxNodes);
+		if (exponential.length > 0) {
+			const { prefix, pump, suffix } = exponential[0];
+			return { kind: "exponential", word: pickMostReadableWord([...prefix, ...pump, ...suffix!])! };
+		}
+
+		const polynomial = findPolynomialAmbiguities(iter, maxNodes);
+		if (polynomial.length > 0) {
+			const { degree, prefix, pump, suffix } = polynomial.reduce((a, b) => (b.degree > a.degree ? b : a));
+			// the pump has to be repeated to get two paths: p->p->q and p->q->q
+			const word = pickMostReadableWord([...prefix, ...pump, ...pump, ...suffix!])!;
+			return { kind: "polynomial", degree, word };
+		}
+
+		const wordSet = findAmbiguousWordSet(iter, maxNodes);
+		if (wordSet !== undefined) {
+			return { kind: "finite", word: pickMostReadableWord(wordSet)! };
+		}
+
+		return { kind: "unambiguous" };
+	}
+
 	copy(): NFA {
 		return NFA.fromFA(this);
 	}
@@ -117,6 +241,10 @@ export class NFA implements ReadonlyNFA {
 		return match(0, nodes.initial);
 	}
 
+	diagnose(word: Iterable<number>): Diagnosis {
+		return faDiagnose(this.transitionIterator(), word, this.maxCharacter);
+	}
+
 	wordSets(): Iterable<CharSet[]> {
 		return faIterateWordSets(this.transitionIterator());
 	}
@@ -128,6 +256,19 @@ export class NFA implements ReadonlyNFA {
 		return faWithCharSetsToString(this.transitionIterator());
 	}
 
+	toDot(options?: Readonly<ToDotOptions>): string {
+		return faExport(this.transitionIterator(), dotExporter(options));
+	}
+	toMermaid(options?: Readonly<ToMermaidOptions>): string {
+		return faExport(this.transitionIterator(), mermaidExporter(options));
+	}
+	toGraphML(options?: Readonly<ToGraphMLOptions>): string {
+		return faExport(this.transitionIterator(), graphMLExporter(options));
+	}
+	toJSON(): FAJSON {
+		return faExport(this.transitionIterator(), jsonExporter(this.maxCharacter));
+	}
+
 	toRegex(options?: Readonly<ToRegexOptions>): Simple<Expression> {
 		return faToRegex(this.transitionIterator(), options);
 	}
@@ -160,6 +301,16 @@ export class NFA implements ReadonlyNFA {
 		return wordSetsToWords(this.intersectionWordSets(other, options));
 	}
 
+	isEquivalentTo(other: TransitionIterable, options?: Readonly<IntersectionOptions>): EquivalenceResult {
+		checkCompatibility(this, other);
+		return faIsEquivalentTo(this.transitionIterator(), other.transitionIterator(), w => this.test(w), options);
+	}
+
+	isSubsetOf(other: TransitionIterable, options?: Readonly<IntersectionOptions>): SubsetResult {
+		checkCompatibility(this, other);
+		return faIsSubsetOf(this.transitionIterator(), other.transitionIterator(), options);
+	}
+
 	private _localCopy(other: TransitionIterable): SubList {
 		if (other instanceof NFA) {
 			return localCopy(this.nodes, other.nodes);
@@ -293,6 +444,58 @@ export class NFA implements ReadonlyNFA {
 		this.nodes.finals.add(initial);
 	}
 
+	/**
+	 * Modifies this NFA such that all infixes (substrings) of all accepted words are also accepted.
+	 *
+	 * If the language of this NFA is empty, then it will remain empty.
+	 *
+	 * Unreachable states will be removed by this operation.
+	 */
+	infixes(): void {
+		this.suffixes();
+		this.prefixes();
+	}
+
+	/**
+	 * Modifies this NFA to accept the left quotient of this NFA by the given FA.
+	 *
+	 * The left quotient is the set of all words `w` for which there is a word `u` accepted by the given FA such that
+	 * `uw` is accepted by this NFA. In other words, all prefixes accepted by the given FA will be removed from the
+	 * words of this NFA.
+	 *
+	 * Unreachable states will be removed by this operation.
+	 *
+	 * @param by
+	 * @param options
+	 */
+	leftQuotient(by: TransitionIterable, options?: Readonly<IntersectionOptions>): void {
+		checkCompatibility(this, by);
+
+		const starts = leftQuotientStates(iterTransitionsMut(this.nodes), by.transitionIterator(), options);
+		baseLeftQuotient(this.nodes, this.nodes, starts);
+	}
+
+	/**
+	 * Modifies this NFA to accept the right quotient of this NFA by the given FA.
+	 *
+	 * The right quotient is the set of all words `w` for which there is a word `u` accepted by the given FA such that
+	 * `wu` is accepted by this NFA. In other words, all suffixes accepted by the given FA will be removed from the
+	 * words of this NFA.
+	 *
+	 * Unreachable states will be removed by this operation.
+	 *
+	 * @param by
+	 * @param options
+	 */
+	rightQuotient(by: TransitionIterable, options?: Readonly<IntersectionOptions>): void {
+		checkCompatibility(this, by);
+
+		const finals = rightQuotientStates(iterTransitionsMut(this.nodes), by.transitionIterator(), options);
+		this.nodes.finals.clear();
+		finals.forEach(f => this.nodes.finals.add(f));
+		this.nodes.removeUnreachable();
+	}
+
 	/**
 	 * Modifies this NFA such that it accepts the reverse of all words it currently accepts.
 	 *
@@ -305,6 +508,31 @@ export class NFA implements ReadonlyNFA {
 		baseReverse(this.nodes, this.nodes);
 	}
 
+	/**
+	 * Reduces the number of states of this NFA without changing its language.
+	 *
+	 * States are merged if they are equivalent under forward or backward bisimulation (or simulation). Two states are
+	 * forward equivalent if they accept the same words and backward equivalent if they are reached by the same words.
+	 * With the `"simulation"` relation, transitions that are subsumed by a transition to a simulating state will also
+	 * be removed.
+	 *
+	 * Unlike DFA minimization, this is not guaranteed to find the smallest NFA. Unreachable states will be removed by
+	 * this operation.
+	 *
+	 * @param options
+	 */
+	reduce(options?: Readonly<NFA.ReduceOptions>): void {
+		const relation = options?.relation ?? "bisimulation";
+		const maxPairs = options?.maxNodes ?? DEFAULT_MAX_SIMULATION_PAIRS;
+
+		this.nodes.removeUnreachable();
+		let changed = true;
+		while (changed) {
+			changed = baseReduce(this.nodes, "forward", relation, maxPairs);
+			changed = baseReduce(this.nodes, "backward", relation, maxPairs) || changed;
+		}
+	}
+
 	/**
 	 * Returns a new NFA which is equivalent to the intersection of the two given FA.
 	 *
@@ -449,10 +677,57 @@ export class NFA implements ReadonlyNFA {
 		return new NFA(nodeList, maxCharacter);
 	}
 
+	/**
+	 * Creates a new NFA which accepts all words within the given edit distance of a word accepted by the given FA.
+	 *
+	 * The edit distance is the Levenshtein distance: inserting, deleting, or substituting a single character counts as
+	 * one edit. If the `transpositions` option is enabled, swapping two adjacent characters also counts as one edit.
+	 *
+	 * The returned NFA has `O(n * k)` states for an FA with `n` states and a distance of `k` (`O(n^3 * k)` with
+	 * transpositions).
+	 *
+	 * @param fa
+	 * @param distance A non-negative integer.
+	 * @param options
+	 */
+	static fromEditDistance(
+		fa: TransitionIterable,
+		distance: number,
+		options?: Readonly<NFA.EditDistanceOptions>
+	): NFA {
+		if (!Number.isInteger(distance) || distance < 0) {
+			throw new RangeError("The distance has to be a non-negative integer.");
+		}
+
+		const { maxCharacter } = fa;
+		const iter = editDistanceIterator(
+			fa.transitionIterator(),
+			distance,
+			options?.transpositions ?? false,
+			maxCharacter
+		);
+		const nfa = NFA.fromTransitionIterator(iter, { maxCharacter }, options);
+		nfa.nodes.removeUnreachable();
+		return nfa;
+	}
+
 	static fromFA(fa: TransitionIterable, creationOptions?: Readonly<NFA.CreationOptions>): NFA {
 		return NFA.fromTransitionIterator(fa.transitionIterator(), { maxCharacter: fa.maxCharacter }, creationOptions);
 	}
 
+	/**
+	 * Creates a new NFA from the given JSON representation.
+	 *
+	 * If the given value is not a valid JSON representation of an FA, an error will be thrown.
+	 *
+	 * @param json
+	 * @param creationOptions
+	 */
+	static fromJSON(json: Readonly<FAJSON>, creationOptions?: Readonly<NFA.CreationOptions>): NFA {
+		const { maxCharacter, iter } = parseFAJSON(json, false);
+		return NFA.fromTransitionIterator(iter, { maxCharacter }, creationOptions);
+	}
+
 	static fromTransitionIterator<InputNode>(
 		iter: FAIterator<InputNode, ReadonlyMap<InputNode, CharSet>>,
 		options: Readonly<NFA.Options>,
@@ -718,10 +993,68 @@ export namespace NFA {
 		 */
 		maxCharacter: number;
 	}
+	export interface EditDistanceOptions extends CreationOptions {
+		/**
+		 * Whether swapping two adjacent characters counts as a single edit.
+		 *
+		 * If `false`, a transposition counts as two edits (e.g. two substitutions).
+		 *
+		 * Defaults to `false`.
+		 */
+		transpositions?: boolean;
+	}
+	export interface ReduceOptions {
+		/**
+		 * The relation used to find states that can be merged.
+		 *
+		 * - `"bisimulation"`: Forward and backward bisimulation. This is computed via partition refinement and is fast
+		 *   even for large NFAs.
+		 * - `"simulation"`: Forward and backward simulation. This can merge more states and remove redundant
+		 *   transitions. Computing the simulation preorder takes `O(n * m + n^2 * k)` time and `O(n * m + n^2)` memory
+		 *   where `n` is the number of states, `k` is the number of disjoint character sets needed to represent all
+		 *   transitions, and `m` is the number of transitions after splitting them into these sets. The preorder is
+		 *   recomputed until the NFA doesn't change anymore.
+		 *
+		 * Defaults to `"bisimulation"`.
+		 */
+		relation?: "bisimulation" | "simulation";
+		/**
+		 * The maximum number of pairs of states the simulation relation is allowed to have before throwing a
+		 * `TooManyNodesError`. This is only used by the `"simulation"` relation. Since the relation is first computed
+		 * for the unreduced NFA, the error will be thrown before the NFA is changed.
+		 *
+		 * By default, this value is set to 1M.
+		 */
+		maxNodes?: number;
+	}
+	export interface AmbiguityOptions {
+		/**
+		 * The maximum number of pairs and triples of states the ambiguity analysis is allowed to visit before throwing a
+		 * `TooManyNodesError`.
+		 *
+		 * By default, this value is set to 100K.
+		 */
+		maxNodes?: number;
+	}
+	/**
+	 * The degree of ambiguity of an NFA.
+	 *
+	 * All ambiguous degrees come with a word that is accepted along at least two distinct paths.
+	 */
+	export type Ambiguity =
+		| { readonly kind: "unambiguous" }
+		| { readonly kind: "finite"; readonly word: number[] }
+		| { readonly kind: "polynomial"; readonly degree: number; readonly word: number[] }
+		| { readonly kind: "exponential"; readonly word: number[] };
 	export interface FromRegexOptions extends CreationOptions {
 		/**
 		 * Whether to replace all lookarounds with an empty character class when construction the NFA.
 		 *
+		 * If lookarounds are enabled, they will be evaluated as if the accepted word is the whole input string. E.g.
+		 * `a(?=b)` accepts no words, `a(?=b)[a-z]` accepts the word `ab`, and `(?<![^])a` accepts the word `a`.
+		 * Lookbehinds inside lookaheads and lookaheads inside lookbehinds are not supported and will cause an error to
+		 * be thrown.
+		 *
 		 * Defaults to `false`.
 		 */
 		disableLookarounds?: boolean;
@@ -734,6 +1067,22 @@ export namespace NFA {
 		 * Defaults to `Infinity`.
 		 */
 		infinityThreshold?: number;
+		/**
+		 * The construction used to create the NFA.
+		 *
+		 * - `"thompson"`: A Thompson-like construction that creates the NFA bottom-up by combining the NFAs of all
+		 *   sub-expressions. Common prefixes and suffixes of alternatives are merged along the way.
+		 * - `"glushkov"`: The Glushkov (position) automaton. It has exactly one state for every character class
+		 *   (after unrolling bounded quantifiers) plus the initial state.
+		 * - `"antimirov"`: The partial derivative automaton as defined by Antimirov. Its states are the partial
+		 *   derivatives of the RE, so it is usually smaller than the Glushkov automaton.
+		 *
+		 * The constructions can create NFAs of very different sizes for the same RE. All of them accept the same
+		 * language.
+		 *
+		 * Defaults to `"thompson"`.
+		 */
+		construction?: "thompson" | "glushkov" | "antimirov";
 	}
 }
 
@@ -784,8 +1133,22 @@ function createNodeList(
 	options: Readonly<NFA.Options>,
 	creationOptions: Readonly<NFA.FromRegexOptions>
 ): NFA.NodeList {
+	if (!creationOptions.disableLookarounds && expression.some(c => containsAssertion(c))) {
+		return createNodeListWithLookarounds(expression, options, creationOptions);
+	}
+
 	const infinityThreshold: number = creationOptions.infinityThreshold || Infinity;
 
+	if (creationOptions.construction === "glushkov") {
+		return createGlushkovNodeList(withoutAssertions(expression, options, infinityThreshold), creationOptions);
+	} else if (creationOptions.construction === "antimirov") {
+		return createAntimirovNodeList(
+			withoutAssertions(expression, options, infinityThreshold),
+			options,
+			creationOptions
+		);
+	}
+
 	return nodeListWithLimit(creationOptions.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
 		baseReplaceWith(nodeList, nodeList, handleAlternation(expression));
 
@@ -813,11 +1176,8 @@ function createNodeList(
 			for (let i = 0, l = elements.length; i < l; i++) {
 				const element = elements[i];
 				if (element.type === "Assertion") {
-					if (creationOptions.disableLookarounds) {
-						return base;
-					} else {
-						throw new Error("Assertions are not supported yet.");
-					}
+					// lookarounds are disabled
+					return base;
 				} else if (element.type === "CharacterClass") {
 					if (element.characters.isEmpty) {
 						return base;
@@ -856,12 +1216,9 @@ function createNodeList(
 					break;
 
 				case "Assertion":
-					if (creationOptions.disableLookarounds) {
-						baseMakeEmpty(nodeList, base);
-						break;
-					} else {
-						throw new Error("Assertions are not supported yet.");
-					}
+					// lookarounds are disabled
+					baseMakeEmpty(nodeList, base);
+					break;
 
 				case "CharacterClass": {
 					const chars = element.characters;
@@ -894,6 +1251,354 @@ function createNodeList(
 	});
 }
 
+/**
+ * Returns a copy of the given expression where all assertions are replaced with the empty character class and all
+ * quantifiers with a maximum greater or equal to the given threshold are infinite.
+ *
+ * This is used by all constructions that don't support disabled lookarounds themselves.
+ *
+ * @param expression
+ * @param options
+ * @param infinityThreshold
+ */
+function withoutAssertions(
+	expression: readonly Simple<Concatenation>[],
+	options: Readonly<NFA.Options>,
+	infinityThreshold: number
+): Simple<Concatenation>[] {
+	function mapConcatenation(concat: Simple<Concatenation>): Simple<Concatenation> {
+		return { type: "Concatenation", elements: concat.elements.map(mapElement) };
+	}
+	function mapElement(element: Simple<Element>): Simple<Element> {
+		switch (element.type) {
+			case "Alternation":
+				return { type: "Alternation", alternatives: element.alternatives.map(mapConcatenation) };
+			case "Assertion":
+				// lookarounds are disabled
+				return { type: "CharacterClass", characters: CharSet.empty(options.maxCharacter) };
+			case "CharacterClass":
+				if (element.characters.maximum !== options.maxCharacter) {
+					throw new Error(`The maximum of all character sets has to be ${options.maxCharacter}.`);
+				}
+				return element;
+			case "Quantifier":
+				return {
+					type: "Quantifier",
+					min: element.min,
+					max: element.max >= infinityThreshold ? Infinity : element.max,
+					alternatives: element.alternatives.map(mapConcatenation),
+				};
+			default:
+				throw assertNever(element);
+		}
+	}
+	return expression.map(mapConcatenation);
+}
+
+/**
+ * Creates the Glushkov automaton of the given expression.
+ *
+ * Every character class of the expression is a position and has its own state. Bounded quantifiers are unrolled, so
+ * their character classes have one position per copy. The state of a position is only reachable via transitions with
+ * the characters of its character class.
+ *
+ * @param expression An expression without assertions.
+ * @param creationOptions
+ */
+function createGlushkovNodeList(
+	expression: readonly Simple<Concatenation>[],
+	creationOptions: Readonly<NFA.CreationOptions>
+): NFA.NodeList {
+	interface Positions {
+		readonly nullable: boolean;
+		readonly first: ReadonlyMap<NFA.Node, CharSet>;
+		readonly last: ReadonlySet<NFA.Node>;
+	}
+	const epsilon: Positions = { nullable: true, first: new Map(), last: new Set() };
+
+	return nodeListWithLimit(creationOptions.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
+		// All `handle*` functions create the positions of the given RE node and link them according to the follow
+		// relation within the RE node.
+		function handleAlternation(alternatives: readonly Simple<Concatenation>[]): Positions {
+			let nullable = false;
+			const first = new Map<NFA.Node, CharSet>();
+			const last = new Set<NFA.Node>();
+			for (const alternative of alternatives) {
+				const positions = handleConcatenation(alternative);
+				nullable = nullable || positions.nullable;
+				positions.first.forEach((characters, node) => first.set(node, characters));
+				positions.last.forEach(node => last.add(node));
+			}
+			return { nullable, first, last };
+		}
+		function handleConcatenation(concat: Simple<Concatenation>): Positions {
+			return concat.elements.reduce((left, element) => append(left, handleElement(element)), epsilon);
+		}
+		function handleElement(element: Simple<Element>): Positions {
+			switch (element.type) {
+				case "Alternation":
+					return handleAlternation(element.alternatives);
+				case "CharacterClass": {
+					if (element.characters.isEmpty) {
+						return { nullable: false, first: new Map(), last: new Set() };
+					}
+					const node = nodeList.createNode();
+					return { nullable: false, first: new Map([[node, element.characters]]), last: new Set([node]) };
+				}
+				case "Quantifier":
+					return handleQuantifier(element);
+				case "Assertion":
+					throw new Error("Assertions have to be removed before creating the Glushkov automaton.");
+				default:
+					throw assertNever(element);
+			}
+		}
+		function handleQuantifier(quant: Simple<Quantifier>): Positions {
+			const { min, max, alternatives } = quant;
+
+			let result = epsilon;
+			if (max === Infinity) {
+				// `x{n,}` is `x{n-1}x+`
+				for (let i = 1; i < min; i++) {
+					result = append(result, handleAlternation(alternatives));
+				}
+				const body = handleAlternation(alternatives);
+				link(body.last, body.first);
+				result = append(result, min === 0 ? { ...body, nullable: true } : body);
+			} else {
+				for (let i = 0; i < min; i++) {
+					result = append(result, handleAlternation(alternatives));
+				}
+				for (let i = min; i < max; i++) {
+					result = append(result, { ...handleAlternation(alternatives), nullable: true });
+				}
+			}
+			return result;
+		}
+		function append(left: Positions, right: Positions): Positions {
+			link(left.last, right.first);
+			return {
+				nullable: left.nullable && right.nullable,
+				first: left.nullable ? new Map([...left.first, ...right.first]) : left.first,
+				last: right.nullable ? new Set([...left.last, ...right.last]) : right.last,
+			};
+		}
+		function link(from: ReadonlySet<NFA.Node>, to: ReadonlyMap<NFA.Node, CharSet>): void {
+			from.forEach(f => to.forEach((characters, t) => nodeList.linkNodes(f, t, characters)));
+		}
+
+		const positions = handleAlternation(expression);
+		positions.first.forEach((characters, node) => nodeList.linkNodes(nodeList.initial, node, characters));
+		positions.last.forEach(node => nodeList.finals.add(node));
+		if (positions.nullable) {
+			nodeList.finals.add(nodeList.initial);
+		}
+
+		// positions after an empty character class can't be reached
+		nodeList.removeUnreachable();
+	});
+}
+
+/**
+ * Creates the partial derivative automaton of the given expression.
+ *
+ * @param expression An expression without assertions.
+ * @param options
+ * @param creationOptions
+ */
+function createAntimirovNodeList(
+	expression: readonly Simple<Concatenation>[],
+	options: Readonly<NFA.Options>,
+	creationOptions: Readonly<NFA.CreationOptions>
+): NFA.NodeList {
+	const iter = partialDerivativeIterator(expression, options.maxCharacter);
+
+	return nodeListWithLimit(creationOptions.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
+		type Term = typeof iter.initial;
+		const translate = cachedFunc<Term, NFA.Node>(() => nodeList.createNode());
+
+		// The initial state of the node list can't have incoming transitions, so the initial term gets its own node
+		// if it can be reached again. `null` represents the initial state of the node list.
+		traverse<Term | null>(null, term => {
+			const node = term === null ? nodeList.initial : translate(term);
+			term = term ?? iter.initial;
+
+			if (iter.isFinal(term)) {
+				nodeList.finals.add(node);
+			}
+
+			const out = iter.getOut(term);
+			out.forEach((characters, to) => nodeList.linkNodes(node, translate(to), characters));
+			return out.keys();
+		});
+	});
+}
+
+/**
+ * Creates the node list of an expression that contains lookarounds.
+ *
+ * All lookarounds that are not nested inside other lookarounds will be replaced with marker characters that are
+ * greater than the maximum character. The NFA of the resulting expression will then be combined with the DFAs of all
+ * lookarounds to remove the markers again. Nested lookarounds are handled recursively.
+ *
+ * @param expression
+ * @param options
+ * @param creationOptions
+ */
+function createNodeListWithLookarounds(
+	expression: readonly Simple<Concatenation>[],
+	options: Readonly<NFA.Options>,
+	creationOptions: Readonly<NFA.FromRegexOptions>
+): NFA.NodeList {
+	const { maxCharacter } = options;
+	const assertions: Simple<Assertion>[] = [];
+	visitTopLevelAssertions(expression, a => assertions.push(a));
+	const markerMaxCharacter = getLookaroundMarker(maxCharacter, assertions.length - 1);
+
+	// replace all lookarounds with markers
+	const extendCharSet = cachedFunc<CharSet, CharSet>(cs => {
+		if (cs.maximum !== maxCharacter) {
+			throw new Error(`The maximum of all character sets has to be ${maxCharacter}.`);
+		}
+		return CharSet.empty(markerMaxCharacter).union(cs.ranges);
+	});
+	let markerIndex = 0;
+	function markConcatenation(concat: Simple<Concatenation>): Simple<Concatenation> {
+		return { type: "Concatenation", elements: concat.elements.map(markElement) };
+	}
+	function markElement(element: Simple<Element>): Simple<Element> {
+		switch (element.type) {
+			case "Alternation":
+				return { type: "Alternation", alternatives: element.alternatives.map(markConcatenation) };
+			case "Assertion": {
+				const marker = getLookaroundMarker(maxCharacter, markerIndex++);
+				return {
+					type: "CharacterClass",
+					characters: CharSet.empty(markerMaxCharacter).union([{ min: marker, max: marker }]),
+				};
+			}
+			case "CharacterClass":
+				return { type: "CharacterClass", characters: extendCharSet(element.characters) };
+			case "Quantifier":
+				return {
+					type: "Quantifier",
+					min: element.min,
+					max: element.max,
+					alternatives: element.alternatives.map(markConcatenation),
+				};
+			default:
+				throw assertNever(element);
+		}
+	}
+	const marked = createNodeList(
+		expression.map(markConcatenation),
+		{ maxCharacter: markerMaxCharacter },
+		creationOptions
+	);
+
+	// compile all lookarounds
+	const all: Simple<Quantifier> = {
+		type: "Quantifier",
+		min: 0,
+		max: Infinity,
+		alternatives: [
+			{ type: "Concatenation", elements: [{ type: "CharacterClass", characters: CharSet.all(maxCharacter) }] },
+		],
+	};
+	const lookarounds: Lookaround[] = assertions.map(assertion => {
+		const opposite = assertion.kind === "ahead" ? "behind" : "ahead";
+		if (assertion.alternatives.some(c => containsAssertion(c, opposite))) {
+			throw new Error("Lookbehinds inside lookaheads and lookaheads inside lookbehinds are not supported.");
+		}
+
+		const body: Simple<Element> = { type: "Alternation", alternatives: assertion.alternatives };
+		const concat: Simple<Concatenation> = {
+			type: "Concatenation",
+			elements: assertion.kind === "ahead" ? [body, all] : [all, body],
+		};
+		const dfa = DFA.fromFA(NFA.fromRegex(concat, options, creationOptions), creationOptions);
+		dfa.minimize();
+
+		return { kind: assertion.kind, negate: assertion.negate, dfa };
+	});
+
+	return nodeListWithLimit(creationOptions.maxNodes ?? DEFAULT_MAX_NODES, nodeList => {
+		const iter = lazyLookaroundProduct(
+			nodeList,
+			{
+				initial: marked.initial,
+				getOut: n => n.out,
+				isFinal: n => marked.finals.has(n),
+			},
+			maxCharacter,
+			lookarounds
+		);
+
+		// traverse the whole iterator to create our NodeList
+		faTraverse(faMapOut(iter, n => n.out.keys()));
+
+		nodeList.removeUnreachable();
+		baseOptimizationReuseFinalStates(nodeList, nodeList);
+	});
+}
+
+/**
+ * Returns whether the given node contains an assertion.
+ *
+ * @param node
+ * @param kind If given, only assertions of the given kind will be considered.
+ */
+function containsAssertion(node: Simple<Node>, kind?: Assertion["kind"]): boolean {
+	switch (node.type) {
+		case "Assertion":
+			if (kind === undefined || node.kind === kind) {
+				return true;
+			}
+			return node.alternatives.some(c => containsAssertion(c, kind));
+		case "Alternation":
+		case "Expression":
+		case "Quantifier":
+			return node.alternatives.some(c => containsAssertion(c, kind));
+		case "CharacterClass":
+			return false;
+		case "Concatenation":
+			return node.elements.some(e => containsAssertion(e, kind));
+		default:
+			throw assertNever(node);
+	}
+}
+
+/**
+ * Calls the given function for all assertions which are not descendants of other assertions in the order in which
+ * they appear in the given expression.
+ *
+ * @param expression
+ * @param consumerFn
+ */
+function visitTopLevelAssertions(
+	expression: readonly Simple<Concatenation>[],
+	consumerFn: (assertion: Simple<Assertion>) => void
+): void {
+	for (const concat of expression) {
+		for (const element of concat.elements) {
+			if (element.type === "Assertion") {
+				consumerFn(element);
+			} else if (element.type !== "CharacterClass") {
+				visitTopLevelAssertions(element.alternatives, consumerFn);
+			}
+		}
+	}
+}
+
+function iterTransitionsMut(nodeList: NFA.NodeList): FAIterator<NFA.Node, ReadonlyMap<NFA.Node, CharSet>> {
+	const { initial, finals } = nodeList;
+	return faMarkPureOut({
+		initial,
+		getOut: n => n.out,
+		isFinal: n => finals.has(n),
+	});
+}
+
 function checkCompatibility(a: FiniteAutomaton | TransitionIterable, b: FiniteAutomaton | TransitionIterable): void {
 	if (a.maxCharacter !== b.maxCharacter) {
 		throw new RangeError("Both NFAs have to have the same max character.");
@@ -1431,6 +2136,36 @@ function baseMakeEmpty(nodeList: NFA.NodeList, base: SubList): void {
 	base.finals.clear();
 }
 
+/**
+ * Changes the given sub list such that it starts in all of the given states at once.
+ *
+ * @param nodeList
+ * @param base
+ * @param starts
+ */
+function baseLeftQuotient(nodeList: NFA.NodeList, base: SubList, starts: ReadonlySet<NFA.Node>): void {
+	const { initial, finals } = base;
+
+	// since the initial state doesn't have incoming transitions, none of the new transitions will point to it
+	const newOut = new Map<NFA.Node, CharSet>();
+	let isFinal = false;
+	for (const start of starts) {
+		start.out.forEach((characters, to) => linkNodesAddImpl(newOut, to, characters));
+		isFinal = isFinal || finals.has(start);
+	}
+
+	for (const out of [...initial.out.keys()]) {
+		nodeList.unlinkNodes(initial, out);
+	}
+	newOut.forEach((characters, to) => nodeList.linkNodes(initial, to, characters));
+	if (isFinal) {
+		finals.add(initial);
+	} else {
+		finals.delete(initial);
+	}
+	nodeList.removeUnreachable();
+}
+
 function baseReverse(nodeList: NFA.NodeList, base: SubList): void {
 	const { initial, finals } = base;
 
@@ -1487,3 +2222,112 @@ function baseReverse(nodeList: NFA.NodeList, base: SubList): void {
 	finals.clear();
 	newFinals.forEach(f => finals.add(f));
 }
+
+/**
+ * Merges all states of the given node list that are equivalent under the forward or backward version of the given
+ * relation. Transitions that are subsumed according to the relation will be removed as well.
+ *
+ * The initial state will never be merged with another state to keep the node list normalized.
+ *
+ * Returns whether the node list was changed.
+ *
+ * @param nodeList A node list without unreachable states.
+ * @param direction
+ * @param relation
+ * @param maxPairs The maximum number of pairs of states of the simulation relation.
+ */
+function baseReduce(
+	nodeList: NFA.NodeList,
+	direction: "forward" | "backward",
+	relation: "bisimulation" | "simulation",
+	maxPairs: number
+): boolean {
+	const nodes = [...nodeList];
+	const indexes = new Map<NFA.Node, number>(nodes.map((n, i) => [n, i]));
+	const getEdges = direction === "forward" ? (n: NFA.Node) => n.out : (n: NFA.Node) => n.in;
+	const graph: LabeledGraph = {
+		out: nodes.map(n => [...getEdges(n)].map(([to, characters]) => [indexes.get(to)!, characters] as const)),
+		accepting: nodes.map(n => (direction === "forward" ? nodeList.finals.has(n) : n === nodeList.initial)),
+	};
+
+	let classes: number[];
+	let sim: boolean[][] | undefined = undefined;
+	if (relation === "bisimulation") {
+		classes = bisimulationClasses(graph);
+	} else {
+		sim = simulationPreorder(graph, maxPairs);
+		const s = sim;
+		classes = nodes.map((_, p) => nodes.findIndex((__, q) => s[p][q] && s[q][p]));
+	}
+
+	// merge all states of a class into the first state of the class
+	let changed = false;
+	const representatives = new Map<number, NFA.Node>();
+	nodes.forEach((node, i) => {
+		if (node === nodeList.initial) {
+			return;
+		}
+		const representative = representatives.get(classes[i]);
+		if (representative === undefined) {
+			representatives.set(classes[i], node);
+		} else {
+			mergeNodes(nodeList, representative, node);
+			changed = true;
+		}
+	});
+	if (changed || sim === undefined) {
+		return changed;
+	}
+
+	// Remove all transitions `r -c-> p` for which there is a transition `r -c-> q` such that `q` strictly simulates
+	// `p`. Since every word accepted via `p` is also accepted via `q`, this doesn't change the language.
+	const strictlySimulated = (p: number, q: number): boolean => sim![p][q] && !sim![q][p];
+	for (const node of nodes) {
+		const edges = [...getEdges(node)];
+		for (const [p, pCharacters] of edges) {
+			let redundant = CharSet.empty(pCharacters.maximum);
+			for (const [q, qCharacters] of edges) {
+				if (strictlySimulated(indexes.get(p)!, indexes.get(q)!)) {
+					redundant = redundant.union(qCharacters);
+				}
+			}
+
+			const remaining = pCharacters.without(redundant);
+			if (remaining.equals(pCharacters)) {
+				continue;
+			}
+			changed = true;
+
+			const [from, to] = direction === "forward" ? [node, p] : [p, node];
+			nodeList.unlinkNodes(from, to);
+			if (!remaining.isEmpty) {
+				nodeList.linkNodes(from, to, remaining);
+			}
+		}
+	}
+	if (changed) {
+		nodeList.removeUnreachable();
+	}
+	return changed;
+}
+
+/**
+ * Moves all transitions of the given source node to the given target node and removes the source node.
+ *
+ * @param nodeList
+ * @param target
+ * @param source
+ */
+function mergeNodes(nodeList: NFA.NodeList, target: NFA.Node, source: NFA.Node): void {
+	for (const [to, characters] of [...source.out]) {
+		nodeList.unlinkNodes(source, to);
+		nodeList.linkNodes(target, to === source ? target : to, characters);
+	}
+	for (const [from, characters] of [...source.in]) {
+		nodeList.unlinkNodes(from, source);
+		nodeList.linkNodes(from, target, characters);
+	}
+	if (nodeList.finals.delete(source)) {
+		nodeList.finals.add(target);
+	}
+}
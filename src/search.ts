@@ -0,0 +1,361 @@
+import { Concatenation, Element, Expression, Simple, visitAst } from "./ast";
+import { CharSet } from "./char-set";
+import { DFA, ReadonlyDFA } from "./dfa";
+import { TooManyNodesError, TransitionIterable } from "./finite-automaton";
+import { NFA } from "./nfa";
+import { assertNever } from "./util";
+
+const DEFAULT_MAX_NODES = 10_000;
+
+/**
+ * The half-open interval `[start, end)` of the characters of an input that were matched.
+ */
+export interface MatchSpan {
+	readonly start: number;
+	readonly end: number;
+}
+
+type Finder = (from: number) => MatchSpan | undefined;
+
+/**
+ * A regex engine that finds the matches of a pattern in an input.
+ *
+ * There are two supported matching semantics:
+ *
+ * - `"leftmost-longest"`: This is the POSIX semantic. Of all matches that start at the leftmost possible position, the
+ *   longest one will be returned. Since this semantic only depends on the language of the pattern, any FA can be used.
+ * - `"leftmost-first"`: This is the semantic of JavaScript's backtracking engine. Of all matches that start at the
+ *   leftmost possible position, the one that is found first by trying alternatives from left to right and by trying
+ *   greedy quantifiers as often as possible will be returned. This semantic depends on the structure of the pattern,
+ *   so it is only available for REs.
+ */
+export class Searcher {
+	readonly maxCharacter: number;
+	readonly semantics: Searcher.Semantics;
+
+	private readonly _createFinder: (input: readonly number[]) => Finder;
+
+	private constructor(
+		createFinder: (input: readonly number[]) => Finder,
+		maxCharacter: number,
+		semantics: Searcher.Semantics
+	) {
+		this._createFinder = createFinder;
+		this.maxCharacter = maxCharacter;
+		this.semantics = semantics;
+	}
+
+	/**
+	 * Returns the first match in the given input that starts at or after the given index.
+	 *
+	 * If there is no such match, `undefined` will be returned.
+	 *
+	 * @param input The characters of the input.
+	 * @param from
+	 */
+	find(input: Iterable<number>, from: number = 0): MatchSpan | undefined {
+		const chars = [...input];
+		if (from > chars.length) {
+			return undefined;
+		}
+		return this._createFinder(chars)(from);
+	}
+
+	/**
+	 * Returns all non-overlapping matches in the given input from left to right.
+	 *
+	 * Like JavaScript's `String#matchAll`, the search will continue after the end of the last match or one character
+	 * after the end of the last match if the last match was empty.
+	 *
+	 * @param input The characters of the input.
+	 */
+	findAll(input: Iterable<number>): MatchSpan[] {
+		const chars = [...input];
+		const find = this._createFinder(chars);
+
+		const matches: MatchSpan[] = [];
+		let from = 0;
+		while (from <= chars.length) {
+			const match = find(from);
+			if (match === undefined) {
+				break;
+			}
+			matches.push(match);
+			from = match.end === match.start ? match.end + 1 : match.end;
+		}
+		return matches;
+	}
+
+	/**
+	 * Creates a new searcher with leftmost-longest semantics for the given FA.
+	 *
+	 * The searcher finds all substrings of the input that are accepted by the given FA. FA can't represent assertions,
+	 * so an FA created from an RE with assertions (e.g. `^a`) will not respect the characters around the matches.
+	 *
+	 * @param fa
+	 * @param creationOptions
+	 */
+	static fromFA(fa: TransitionIterable, creationOptions?: Readonly<DFA.CreationOptions>): Searcher {
+		const forward = DFA.fromFA(fa, creationOptions);
+		forward.minimize();
+
+		// A match starts at the index `i` iff the suffix of the input starting at `i` is in the language `L[^]*`. Since
+		// the reverse of `L[^]*` is `[^]*rev(L)`, all start indexes can be found by running the DFA of `[^]*rev(L)`
+		// over the reversed input.
+		const reversed = NFA.fromFA(fa, creationOptions);
+		reversed.reverse();
+		reversed.prepend(NFA.all({ maxCharacter: fa.maxCharacter }));
+		const starts = DFA.fromFA(reversed, creationOptions);
+		starts.minimize();
+
+		return new Searcher(input => createLongestFinder(forward, starts, input), fa.maxCharacter, "leftmost-longest");
+	}
+
+	/**
+	 * Creates a new searcher for the given RE.
+	 *
+	 * For leftmost-first semantics, the order of alternatives in the given RE determines their priority. Since the RE
+	 * AST does not represent lazy quantifiers, all quantifiers are greedy. To get an error instead of wrong matches
+	 * for lazy quantifiers, parse the RE with the `lazyQuantifiers: "throw"` option. Assertions are not supported for
+	 * leftmost-first semantics and will cause an error to be thrown.
+	 *
+	 * For leftmost-longest semantics, the RE will be converted into an NFA. Assertions are not supported for
+	 * leftmost-longest semantics either and will cause an error to be thrown.
+	 *
+	 * @param expression
+	 * @param options
+	 * @param creationOptions
+	 */
+	static fromRegex(
+		expression: Simple<Expression>,
+		options: Readonly<NFA.Options>,
+		creationOptions?: Readonly<Searcher.FromRegexOptions>
+	): Searcher {
+		const semantics = creationOptions?.semantics ?? "leftmost-first";
+		if (semantics === "leftmost-longest") {
+			visitAst(expression, {
+				onAssertionEnter() {
+					throw new Error("Assertions are not supported by leftmost-longest searchers.");
+				},
+			});
+			return Searcher.fromFA(NFA.fromRegex(expression, options, creationOptions), creationOptions);
+		}
+
+		const program = compile(expression, creationOptions?.maxNodes ?? DEFAULT_MAX_NODES);
+		return new Searcher(input => createFirstFinder(program, input), options.maxCharacter, semantics);
+	}
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace Searcher {
+	export type Semantics = "leftmost-longest" | "leftmost-first";
+
+	export interface FromRegexOptions extends NFA.FromRegexOptions {
+		/**
+		 * The matching semantics of the searcher.
+		 *
+		 * Defaults to `"leftmost-first"`.
+		 */
+		semantics?: Semantics;
+	}
+}
+
+function createLongestFinder(forward: ReadonlyDFA, starts: ReadonlyDFA, input: readonly number[]): Finder {
+	const isStart: boolean[] = new Array<boolean>(input.length + 1).fill(false);
+	let state: DFA.ReadonlyNode | undefined = starts.nodes.initial;
+	for (let i = input.length; i >= 0; i--) {
+		isStart[i] = state !== undefined && starts.nodes.finals.has(state);
+		if (i === 0) {
+			break;
+		}
+
+		const char = input[i - 1];
+		if (Number.isInteger(char) && char >= 0 && char <= starts.maxCharacter) {
+			state = state?.out.get(char);
+		} else {
+			// No match can contain this character, so the characters before it can only start matches that end before
+			// it. This is the same as searching an input that ends before this character.
+			state = starts.nodes.initial;
+		}
+	}
+
+	return from => {
+		const start = isStart.indexOf(true, from);
+		if (start === -1) {
+			return undefined;
+		}
+
+		let end = start;
+		let node: DFA.ReadonlyNode | undefined = forward.nodes.initial;
+		for (let i = start; node !== undefined; i++) {
+			if (forward.nodes.finals.has(node)) {
+				end = i;
+			}
+			if (i === input.length) {
+				break;
+			}
+			node = node.out.get(input[i]);
+		}
+		return { start, end };
+	};
+}
+
+/**
+ * The instructions of a Pike VM.
+ */
+type Instruction =
+	| { readonly type: "char"; readonly characters: CharSet; next: number }
+	| { readonly type: "split"; readonly next: number[] }
+	| { readonly type: "jump"; next: number }
+	| { readonly type: "match" };
+
+function compile(expression: Simple<Expression>, maxInstructions: number): Instruction[] {
+	const program: Instruction[] = [];
+	function emit<T extends Instruction>(instruction: T): T {
+		if (program.length >= maxInstructions) {
+			throw new TooManyNodesError(
+				`The program is not allowed to have more than ${maxInstructions} instructions.`
+			);
+		}
+		program.push(instruction);
+		return instruction;
+	}
+
+	// All `compile*` functions emit the instructions of the given node such that the instruction after the last
+	// emitted instruction is executed after the node matched.
+	function compileAlternatives(alternatives: readonly Simple<Concatenation>[]): void {
+		if (alternatives.length === 1) {
+			compileConcatenation(alternatives[0]);
+			return;
+		}
+
+		const split = emit({ type: "split", next: [] as number[] });
+		const jumps: { next: number }[] = [];
+		alternatives.forEach((alternative, i) => {
+			split.next.push(program.length);
+			compileConcatenation(alternative);
+			if (i < alternatives.length - 1) {
+				jumps.push(emit({ type: "jump", next: -1 }));
+			}
+		});
+		jumps.forEach(j => (j.next = program.length));
+	}
+	function compileConcatenation(concat: Simple<Concatenation>): void {
+		concat.elements.forEach(compileElement);
+	}
+	function compileElement(element: Simple<Element>): void {
+		switch (element.type) {
+			case "CharacterClass": {
+				const char = emit({ type: "char", characters: element.characters, next: -1 });
+				char.next = program.length;
+				break;
+			}
+			case "Alternation":
+				compileAlternatives(element.alternatives);
+				break;
+			case "Quantifier": {
+				const { min, max, alternatives } = element;
+				for (let i = 0; i < min; i++) {
+					compileAlternatives(alternatives);
+				}
+				if (max === Infinity) {
+					// greedy loop
+					const start = program.length;
+					const split = emit({ type: "split", next: [] as number[] });
+					split.next.push(program.length);
+					compileAlternatives(alternatives);
+					emit({ type: "jump", next: start });
+					split.next.push(program.length);
+				} else {
+					// nested greedy optionals
+					const splits: { next: number[] }[] = [];
+					for (let i = min; i < max; i++) {
+						const split = emit({ type: "split", next: [] as number[] });
+						split.next.push(program.length);
+						splits.push(split);
+						compileAlternatives(alternatives);
+					}
+					splits.forEach(s => s.next.push(program.length));
+				}
+				break;
+			}
+			case "Assertion":
+				throw new Error("Assertions are not supported by leftmost-first searchers.");
+			default:
+				throw assertNever(element);
+		}
+	}
+
+	compileAlternatives(expression.alternatives);
+	emit({ type: "match" });
+	return program;
+}
+
+interface Thread {
+	readonly pc: number;
+	readonly start: number;
+}
+
+function createFirstFinder(program: readonly Instruction[], input: readonly number[]): Finder {
+	const lastAdded: number[] = new Array<number>(program.length).fill(-1);
+	let generation = 0;
+
+	function addThread(list: Thread[], pc: number, start: number): void {
+		if (lastAdded[pc] === generation) {
+			return;
+		}
+		lastAdded[pc] = generation;
+
+		const instruction = program[pc];
+		switch (instruction.type) {
+			case "jump":
+				addThread(list, instruction.next, start);
+				break;
+			case "split":
+				for (const next of instruction.next) {
+					addThread(list, next, start);
+				}
+				break;
+			case "char":
+			case "match":
+				list.push({ pc, start });
+				break;
+			default:
+				throw assertNever(instruction);
+		}
+	}
+
+	return from => {
+		let match: MatchSpan | undefined = undefined;
+
+		let current: Thread[] = [];
+		generation++;
+		for (let i = from; i <= input.length; i++) {
+			if (match === undefined) {
+				// a new thread starting at the current position has the lowest priority
+				addThread(current, 0, i);
+			}
+			if (current.length === 0) {
+				break;
+			}
+
+			const next: Thread[] = [];
+			generation++;
+			for (const { pc, start } of current) {
+				const instruction = program[pc];
+				if (instruction.type === "match") {
+					// all remaining threads have a lower priority
+					match = { start, end: i };
+					break;
+				} else if (instruction.type === "char") {
+					if (i < input.length && instruction.characters.has(input[i])) {
+						addThread(next, instruction.next, start);
+					}
+				}
+			}
+			current = next;
+		}
+
+		return match;
+	};
+}
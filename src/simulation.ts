@@ -0,0 +1,185 @@
+import { CharSet } from "./char-set";
+import { decomposeIntoBaseSets, getBaseSets } from "./char-util";
+import { TooManyNodesError } from "./finite-automaton";
+
+/**
+ * A graph whose edges are labeled with character sets.
+ *
+ * The states are the indexes `0` to `n - 1`. The graph is allowed to be a reversed FA.
+ */
+export interface LabeledGraph {
+	/**
+	 * The outgoing edges of each state.
+	 */
+	readonly out: readonly (readonly (readonly [number, CharSet])[])[];
+	/**
+	 * Whether each state is accepting.
+	 *
+	 * For an FA, these are the final states. For a reversed FA, this is the initial state.
+	 */
+	readonly accepting: readonly boolean[];
+}
+
+/**
+ * Returns the coarsest bisimulation of the given graph as a list of class indexes.
+ *
+ * Two states `p` and `q` are bisimilar if they are both accepting or both not accepting and if for every character
+ * `c` and every `c`-successor of `p` there is a bisimilar `c`-successor of `q` and vice versa. Bisimilar states of an
+ * FA accept the same language.
+ *
+ * The bisimulation is computed via partition refinement. For every state, the union of all characters leading into
+ * each class is used to distinguish states.
+ *
+ * @param graph
+ */
+export function bisimulationClasses(graph: LabeledGraph): number[] {
+	let classes: number[] = graph.accepting.map(a => (a ? 1 : 0));
+	let classCount = new Set(classes).size;
+
+	for (;;) {
+		const signatures = new Map<string, number>();
+		const next = classes.map((cls, state) => {
+			const byClass = new Map<number, CharSet>();
+			for (const [to, characters] of graph.out[state]) {
+				const toClass = classes[to];
+				const current = byClass.get(toClass);
+				byClass.set(toClass, current === undefined ? characters : current.union(characters));
+			}
+
+			let signature = String(cls);
+			for (const [toClass, characters] of [...byClass].sort((a, b) => a[0] - b[0])) {
+				signature += `|${toClass}:${characters.toString()}`;
+			}
+
+			let id = signatures.get(signature);
+			if (id === undefined) {
+				id = signatures.size;
+				signatures.set(signature, id);
+			}
+			return id;
+		});
+
+		classes = next;
+		if (signatures.size === classCount) {
+			return classes;
+		}
+		classCount = signatures.size;
+	}
+}
+
+/**
+ * Returns the maximal simulation preorder of the given graph.
+ *
+ * The returned matrix `sim` contains `sim[p][q] === true` iff `q` simulates `p`. A state `q` simulates `p` if `q` is
+ * accepting whenever `p` is and if for every character `c` and every `c`-successor `p'` of `p`, there is a
+ * `c`-successor `q'` of `q` that simulates `p'`. If `q` simulates `p` in an FA, then `q` accepts all words `p` accepts.
+ *
+ * The character sets of all edges are split into disjoint base sets which are used as the letters of the graph. The
+ * preorder is then computed by refinement: for every letter `a`, state `q`, and state `p'`, the number of
+ * `a`-successors of `q` that simulate `p'` is counted. Whenever a pair is removed from the relation, only the counters
+ * of the predecessors of the pair are updated. If a counter drops to zero, all pairs of `q` and an `a`-predecessor of
+ * `p'` will be removed. This is the algorithm of Henzinger, Henzinger, and Kopke. It runs in `O(n * m + n^2 * k)` time
+ * and `O(n * m + n^2)` memory where `n` is the number of states, `k` is the number of letters, and `m` is the number of
+ * edges split into letters.
+ *
+ * If the relation would have more than the given maximum number of pairs of states, a `TooManyNodesError` will be
+ * thrown.
+ *
+ * @param graph
+ * @param maxPairs
+ */
+export function simulationPreorder(graph: LabeledGraph, maxPairs: number): boolean[][] {
+	const { out, accepting } = graph;
+	const n = out.length;
+	if (n * n > maxPairs) {
+		throw new TooManyNodesError(`The simulation relation is not allowed to have more than ${maxPairs} pairs.`);
+	}
+
+	// the successors and predecessors of each state for each letter
+	const letters = getBaseSets(iterateCharSets(out));
+	const post: number[][][] = letters.map(() => out.map(() => []));
+	const pre: number[][][] = letters.map(() => out.map(() => []));
+	out.forEach((edges, from) => {
+		for (const [to, characters] of edges) {
+			for (const a of decomposeIntoBaseSets(characters, letters)) {
+				post[a][from].push(to);
+				pre[a][to].push(from);
+			}
+		}
+	});
+
+	const sim: boolean[][] = [];
+	for (let p = 0; p < n; p++) {
+		const row: boolean[] = [];
+		for (let q = 0; q < n; q++) {
+			row.push(
+				(!accepting[p] || accepting[q]) && post.every(postA => postA[p].length === 0 || postA[q].length > 0)
+			);
+		}
+		sim.push(row);
+	}
+
+	// count[a][q][p'] is the number of `a`-successors of `q` that simulate `p'`. Only states with `a`-successors have
+	// counters.
+	const count: (Int32Array | undefined)[][] = post.map(postA =>
+		postA.map(successors => {
+			if (successors.length === 0) {
+				return undefined;
+			}
+			const counters = new Int32Array(n);
+			for (let pTo = 0; pTo < n; pTo++) {
+				for (const qTo of successors) {
+					if (sim[pTo][qTo]) {
+						counters[pTo]++;
+					}
+				}
+			}
+			return counters;
+		})
+	);
+
+	const removed: [number, number][] = [];
+	function noSimulatingSuccessor(a: number, q: number, pTo: number): void {
+		// no `a`-successor of `q` simulates `pTo`, so `q` doesn't simulate any `a`-predecessor of `pTo`
+		for (const p of pre[a][pTo]) {
+			if (sim[p][q]) {
+				sim[p][q] = false;
+				removed.push([p, q]);
+			}
+		}
+	}
+
+	count.forEach((countA, a) =>
+		countA.forEach((counters, q) => {
+			if (counters !== undefined) {
+				counters.forEach((c, pTo) => {
+					if (c === 0) {
+						noSimulatingSuccessor(a, q, pTo);
+					}
+				});
+			}
+		})
+	);
+
+	while (removed.length > 0) {
+		const [pTo, qTo] = removed.pop()!;
+		pre.forEach((preA, a) => {
+			for (const q of preA[qTo]) {
+				const counters = count[a][q]!;
+				if (--counters[pTo] === 0) {
+					noSimulatingSuccessor(a, q, pTo);
+				}
+			}
+		});
+	}
+
+	return sim;
+}
+
+function* iterateCharSets(out: LabeledGraph["out"]): Iterable<CharSet> {
+	for (const edges of out) {
+		for (const [, characters] of edges) {
+			yield characters;
+		}
+	}
+}
@@ -0,0 +1,329 @@
+import { Concatenation, Element, Expression, Quantifier, Simple, visitAst } from "./ast";
+import { CharSet } from "./char-set";
+import { TooManyNodesError } from "./finite-automaton";
+import { NFA } from "./nfa";
+import { MatchSpan } from "./search";
+import { assertNever } from "./util";
+
+const DEFAULT_MAX_NODES = 10_000;
+
+interface Node {
+	readonly id: number;
+	readonly out: Transition[];
+}
+type Transition =
+	| { readonly type: "char"; readonly characters: CharSet; readonly to: Node }
+	| { readonly type: "epsilon"; readonly tags: readonly TagOperation[]; readonly to: Node };
+/**
+ * Sets the given tag to the current position or clears it.
+ */
+interface TagOperation {
+	readonly tag: number;
+	readonly clear: boolean;
+}
+
+/**
+ * A tagged NFA (TNFA) as described by Laurikari.
+ *
+ * A TNFA is an NFA with epsilon transitions where some transitions are annotated with tags. Whenever a tagged
+ * transition is taken, the current position in the input will be recorded for its tags. Every capturing group of the
+ * RE the TNFA was created from has 2 tags, one for its start and one for its end. This allows the TNFA to return the
+ * offsets of all capturing groups of a match.
+ *
+ * The TNFA is simulated by running all paths simultaneously, so the runtime of all matching methods is linear in the
+ * length of the input. Like JavaScript's backtracking engine, the TNFA uses leftmost-first semantics to choose between
+ * multiple paths: alternatives are tried from left to right and quantifiers are greedy. The capturing groups inside a
+ * quantifier are reset for each iteration of the quantifier.
+ *
+ * Capturing groups are only known to the TNFA if the RE was parsed with the `captures: "keep"` option.
+ */
+export class TaggedNFA {
+	readonly maxCharacter: number;
+	/**
+	 * The number of capturing groups of the RE.
+	 *
+	 * This is the highest number of all capturing groups in the RE. Capturing groups that were removed from the RE
+	 * (e.g. because they can never be matched) are not part of the TNFA and will never participate in a match.
+	 */
+	readonly groupCount: number;
+
+	private readonly _initial: Node;
+	private readonly _final: Node;
+	private readonly _nodeCount: number;
+
+	private constructor(initial: Node, final: Node, nodeCount: number, groupCount: number, maxCharacter: number) {
+		this._initial = initial;
+		this._final = final;
+		this._nodeCount = nodeCount;
+		this.groupCount = groupCount;
+		this.maxCharacter = maxCharacter;
+	}
+
+	/**
+	 * Returns the submatches of the given word if this TNFA accepts the whole word.
+	 *
+	 * If the word is not accepted, `undefined` will be returned.
+	 *
+	 * @param word The characters of the word to match.
+	 */
+	match(word: Iterable<number>): TaggedNFA.Submatches | undefined {
+		return this._run([...word], 0, true);
+	}
+
+	/**
+	 * Returns the submatches of the first match in the given input that starts at or after the given index.
+	 *
+	 * This behaves like JavaScript's `RegExp#exec`. If there is no such match, `undefined` will be returned.
+	 *
+	 * @param input The characters of the input.
+	 * @param from
+	 */
+	exec(input: Iterable<number>, from: number = 0): TaggedNFA.Submatches | undefined {
+		const chars = [...input];
+		if (from > chars.length) {
+			return undefined;
+		}
+		return this._run(chars, from, false);
+	}
+
+	private _run(input: readonly number[], from: number, anchored: boolean): TaggedNFA.Submatches | undefined {
+		interface Thread {
+			readonly node: Node;
+			readonly start: number;
+			readonly tags: readonly number[];
+		}
+
+		const final = this._final;
+		const lastAdded: number[] = new Array<number>(this._nodeCount).fill(-1);
+		let generation = 0;
+
+		function addThread(list: Thread[], node: Node, start: number, tags: readonly number[], pos: number): void {
+			if (lastAdded[node.id] === generation) {
+				return;
+			}
+			lastAdded[node.id] = generation;
+
+			if (node === final || node.out.some(t => t.type === "char")) {
+				list.push({ node, start, tags });
+			}
+			for (const transition of node.out) {
+				if (transition.type === "epsilon") {
+					let nextTags = tags;
+					if (transition.tags.length > 0) {
+						const copy = [...tags];
+						for (const { tag, clear } of transition.tags) {
+							copy[tag] = clear ? -1 : pos;
+						}
+						nextTags = copy;
+					}
+					addThread(list, transition.to, start, nextTags, pos);
+				}
+			}
+		}
+
+		const emptyTags: number[] = new Array<number>(this.groupCount * 2).fill(-1);
+		let match: Thread | undefined = undefined;
+		let matchEnd = -1;
+
+		let current: Thread[] = [];
+		generation++;
+		for (let i = from; i <= input.length; i++) {
+			if (match === undefined && (!anchored || i === from)) {
+				// a new thread starting at the current position has the lowest priority
+				addThread(current, this._initial, i, emptyTags, i);
+			}
+			if (current.length === 0) {
+				break;
+			}
+
+			const next: Thread[] = [];
+			generation++;
+			for (const thread of current) {
+				if (thread.node === final) {
+					if (!anchored || i === input.length) {
+						// all remaining threads have a lower priority
+						match = thread;
+						matchEnd = i;
+						break;
+					}
+				} else if (i < input.length) {
+					const char = input[i];
+					for (const transition of thread.node.out) {
+						if (transition.type === "char" && transition.characters.has(char)) {
+							addThread(next, transition.to, thread.start, thread.tags, i + 1);
+						}
+					}
+				}
+			}
+			current = next;
+		}
+
+		if (match === undefined) {
+			return undefined;
+		}
+
+		const submatches: (MatchSpan | undefined)[] = [{ start: match.start, end: matchEnd }];
+		for (let i = 0; i < this.groupCount; i++) {
+			const start = match.tags[2 * i];
+			const end = match.tags[2 * i + 1];
+			submatches.push(start === -1 || end === -1 ? undefined : { start, end });
+		}
+		return submatches;
+	}
+
+	/**
+	 * Creates a new TNFA for the given RE.
+	 *
+	 * The capturing groups of the RE are given by the `capture` property of its alternations. Assertions are not
+	 * supported and will cause an error to be thrown.
+	 *
+	 * Since the RE AST does not represent lazy quantifiers, all quantifiers are greedy. To get an error instead of wrong
+	 * captures for lazy quantifiers, parse the RE with the `lazyQuantifiers: "throw"` option.
+	 *
+	 * @param expression
+	 * @param options
+	 * @param creationOptions
+	 */
+	static fromRegex(
+		expression: Simple<Expression>,
+		options: Readonly<NFA.Options>,
+		creationOptions?: Readonly<NFA.CreationOptions>
+	): TaggedNFA {
+		const maxNodes = creationOptions?.maxNodes ?? DEFAULT_MAX_NODES;
+
+		let nodeCount = 0;
+		function createNode(): Node {
+			if (nodeCount >= maxNodes) {
+				throw new TooManyNodesError(`The TNFA is not allowed to have more than ${maxNodes} nodes.`);
+			}
+			return { id: nodeCount++, out: [] };
+		}
+		function linkEpsilon(from: Node, to: Node, tags: readonly TagOperation[] = []): void {
+			from.out.push({ type: "epsilon", tags, to });
+		}
+
+		// All `build*` functions add the transitions of the given RE node starting at the given node and return the
+		// node that is reached after the RE node matched. The returned node is always a new node without any outgoing
+		// transitions or the given start node.
+		function buildAlternatives(alternatives: readonly Simple<Concatenation>[], start: Node): Node {
+			if (alternatives.length === 1) {
+				return buildConcatenation(alternatives[0], start);
+			}
+
+			const end = createNode();
+			for (const alternative of alternatives) {
+				const alternativeStart = createNode();
+				linkEpsilon(start, alternativeStart);
+				linkEpsilon(buildConcatenation(alternative, alternativeStart), end);
+			}
+			return end;
+		}
+		function buildConcatenation(concat: Simple<Concatenation>, start: Node): Node {
+			let current = start;
+			for (const element of concat.elements) {
+				current = buildElement(element, current);
+			}
+			return current;
+		}
+		function buildElement(element: Simple<Element>, start: Node): Node {
+			switch (element.type) {
+				case "CharacterClass": {
+					const end = createNode();
+					start.out.push({ type: "char", characters: element.characters, to: end });
+					return end;
+				}
+				case "Alternation": {
+					if (element.capture === undefined) {
+						return buildAlternatives(element.alternatives, start);
+					}
+
+					const tag = 2 * (element.capture - 1);
+					const open = createNode();
+					linkEpsilon(start, open, [{ tag, clear: false }]);
+					const close = createNode();
+					linkEpsilon(buildAlternatives(element.alternatives, open), close, [{ tag: tag + 1, clear: false }]);
+					return close;
+				}
+				case "Quantifier":
+					return buildQuantifier(element, start);
+				case "Assertion":
+					throw new Error("Assertions are not supported by tagged NFA.");
+				default:
+					throw assertNever(element);
+			}
+		}
+		function buildQuantifier(element: Simple<Quantifier>, start: Node): Node {
+			const { min, max, alternatives } = element;
+
+			// all capturing groups inside the quantifier are reset before each iteration
+			const resets: TagOperation[] = [];
+			for (const alternative of alternatives) {
+				visitAst(alternative, {
+					onAlternationEnter(node) {
+						if (node.capture !== undefined) {
+							const tag = 2 * (node.capture - 1);
+							resets.push({ tag, clear: true }, { tag: tag + 1, clear: true });
+						}
+					},
+				});
+			}
+			function buildIteration(iterationStart: Node): Node {
+				const bodyStart = createNode();
+				linkEpsilon(iterationStart, bodyStart, resets);
+				return buildAlternatives(alternatives, bodyStart);
+			}
+
+			let current = start;
+			for (let i = 0; i < min; i++) {
+				current = buildIteration(current);
+			}
+
+			if (max === Infinity) {
+				// greedy loop
+				const loop = current;
+				linkEpsilon(buildIteration(loop), loop);
+				const end = createNode();
+				linkEpsilon(loop, end);
+				return end;
+			} else if (min < max) {
+				// nested greedy optionals
+				const splits: Node[] = [];
+				for (let i = min; i < max; i++) {
+					splits.push(current);
+					current = buildIteration(current);
+				}
+				const end = createNode();
+				linkEpsilon(current, end);
+				splits.forEach(s => linkEpsilon(s, end));
+				return end;
+			} else {
+				return current;
+			}
+		}
+
+		let groupCount = 0;
+		visitAst(expression, {
+			onAlternationEnter(node) {
+				if (node.capture !== undefined) {
+					groupCount = Math.max(groupCount, node.capture);
+				}
+			},
+		});
+
+		const initial = createNode();
+		const final = buildAlternatives(expression.alternatives, initial);
+
+		return new TaggedNFA(initial, final, nodeCount, groupCount, options.maxCharacter);
+	}
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace TaggedNFA {
+	/**
+	 * The spans of a match and its capturing groups.
+	 *
+	 * The span at index 0 is the span of the whole match and the span at index `i` is the span of the `i`-th capturing
+	 * group. Capturing groups that did not participate in the match are `undefined`.
+	 */
+	export type Submatches = (MatchSpan | undefined)[];
+}
@@ -242,8 +242,8 @@ export function traverse<S>(root: S, next: (element: S) => Iterable<S>): void {
 	const visited = new Set<S>();
 	const toCheck: S[] = [root];
 
-	let element;
-	while ((element = toCheck.pop())) {
+	while (toCheck.length > 0) {
+		const element = toCheck.pop()!;
 		if (!visited.has(element)) {
 			visited.add(element);
 			toCheck.push(...next(element));
@@ -251,6 +251,97 @@ export function traverse<S>(root: S, next: (element: S) => Iterable<S>): void {
 	}
 }
 
+/**
+ * Returns the strongly connected components of the graph of all elements reachable from the given root elements.
+ *
+ * The components are returned in reverse topological order, so a component will only have edges to itself and to
+ * components that were returned before it.
+ *
+ * This uses Tarjan's algorithm and is implemented iteratively, so it's safe to use for large graphs.
+ *
+ * @param roots
+ * @param next
+ */
+export function stronglyConnectedComponents<S>(roots: Iterable<S>, next: (element: S) => Iterable<S>): S[][] {
+	const index = new Map<S, number>();
+	const lowLink = new Map<S, number>();
+	const stack: S[] = [];
+	const onStack = new Set<S>();
+	const components: S[][] = [];
+
+	interface StackFrame {
+		readonly element: S;
+		readonly next: Iterator<S>;
+	}
+	const callStack: StackFrame[] = [];
+	function visit(element: S): void {
+		index.set(element, index.size);
+		lowLink.set(element, index.get(element)!);
+		stack.push(element);
+		onStack.add(element);
+		callStack.push({ element, next: next(element)[Symbol.iterator]() });
+	}
+
+	for (const root of roots) {
+		if (index.has(root)) {
+			continue;
+		}
+
+		visit(root);
+		while (callStack.length > 0) {
+			const { element, next: nextIter } = callStack[callStack.length - 1];
+			const result = nextIter.next();
+			if (!result.done) {
+				const out = result.value;
+				if (!index.has(out)) {
+					visit(out);
+				} else if (onStack.has(out)) {
+					lowLink.set(element, Math.min(lowLink.get(element)!, index.get(out)!));
+				}
+				continue;
+			}
+
+			callStack.pop();
+			if (callStack.length > 0) {
+				const parent = callStack[callStack.length - 1].element;
+				lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(element)!));
+			}
+
+			if (lowLink.get(element) === index.get(element)) {
+				const component: S[] = [];
+				let top: S;
+				do {
+					top = stack.pop()!;
+					onStack.delete(top);
+					component.push(top);
+				} while (top !== element);
+				components.push(component);
+			}
+		}
+	}
+
+	return components;
+}
+
+/**
+ * Returns a pseudo-random number generator for the given seed. The generator returns numbers in the interval `[0, 1)`.
+ *
+ * The same seed will always produce the same sequence of numbers.
+ *
+ * @param seed
+ */
+export function seededRandom(seed: number): () => number {
+	// Mulberry32
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+	};
+}
+
 export function assertNever(value: never, message?: string): never {
 	const error = new Error(message);
 	(error as any).data = value;
@@ -12,7 +12,7 @@ export function fromStringToUTF16(string: string): number[] {
 	const word: number[] = new Array<number>(string.length);
 
 	for (let i = 0, l = string.length; i < l; i++) {
-		word.push(string.charCodeAt(i));
+		word[i] = string.charCodeAt(i);
 	}
 
 	return word;
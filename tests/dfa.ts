@@ -1,10 +1,14 @@
 import { DFA } from "../src/dfa";
 import { assert } from "chai";
-import { literalToString, literalToDFA, removeIndentation } from "./helper/fa";
+import { literalToString, literalToDFA, literalToNFA, removeIndentation } from "./helper/fa";
+import { testEquivalence } from "./helper/equivalence";
 import { FINITE_LITERALS, NON_FINITE_LITERALS, EMPTY_LITERALS, NON_EMPTY_LITERALS } from "./helper/regexp-literals";
-import { Literal } from "../src/js";
+import { Literal, Parser } from "../src/js";
 import { fromStringToUnicode, fromUnicodeToString } from "../src/words";
-import { prefixes } from "./helper/util";
+import { infixes, prefixes } from "./helper/util";
+import { NFA } from "../src/nfa";
+import { FAJSON } from "../src/finite-automaton";
+import { CharRange, CharSet } from "../src/char-set";
 
 describe("DFA", function () {
 	describe("fromWords", function () {
@@ -420,6 +424,65 @@ describe("DFA", function () {
 		}
 	});
 
+	describe("fromRegex", function () {
+		function regexToDFA(literal: Literal): DFA {
+			const { expression, maxCharacter } = Parser.fromLiteral(literal).parse();
+			return DFA.fromRegex(expression, { maxCharacter });
+		}
+
+		describe("is equivalent to the subset construction", function () {
+			const literals: Literal[] = [
+				...FINITE_LITERALS,
+				...NON_FINITE_LITERALS,
+				...EMPTY_LITERALS,
+				...NON_EMPTY_LITERALS,
+				/(?:a*b*)*c/,
+				/(?:a{2,3}){2,}/,
+				/(?:a?){3}b/,
+				/\w+@\w+(?:\.\w+)+/i,
+				/"(?:[^"\\]|\\.)*"/,
+				/\p{L}+/u,
+			];
+			for (const literal of literals) {
+				it(literalToString(literal), function () {
+					assert.isTrue(regexToDFA(literal).isEquivalentTo(literalToDFA(literal)).equivalent);
+				});
+			}
+		});
+
+		describe("creates minimal DFAs for common patterns", function () {
+			const literals: Literal[] = [
+				/(?:a|b)*abb/,
+				/[ab]*a[ab]{3}/,
+				/(?:0|[1-9]\d*)(?:\.\d+)?(?:e[+-]?\d+)?/i,
+				/"(?:[^"\\]|\\.)*"/,
+				/[^]*/u,
+			];
+			for (const literal of literals) {
+				it(literalToString(literal), function () {
+					const dfa = regexToDFA(literal);
+					const minimal = dfa.copy();
+					minimal.minimize();
+					assert.strictEqual(dfa.nodes.count(), minimal.nodes.count());
+				});
+			}
+		});
+
+		it("accepts concatenations and alternatives", function () {
+			const { expression, maxCharacter } = Parser.fromLiteral(/ab|c/).parse();
+			const expected = literalToDFA(/ab|c/);
+			assert.isTrue(DFA.fromRegex(expression.alternatives, { maxCharacter }).isEquivalentTo(expected).equivalent);
+			assert.isTrue(
+				DFA.fromRegex(expression.alternatives[0], { maxCharacter }).isEquivalentTo(literalToDFA(/ab/))
+					.equivalent
+			);
+		});
+
+		it("rejects assertions", function () {
+			assert.throws(() => regexToDFA(/a\b/));
+		});
+	});
+
 	describe("Minimize", function () {
 		test([
 			{
@@ -512,6 +575,15 @@ describe("DFA", function () {
 
 					[6] -> [6] : 30..39`,
 			},
+			{
+				literal: /[^]*(?:a|ba)/,
+				expected: `
+					(0) -> (0) : 0..60, 62..ffff
+					    -> [1] : 61
+
+					[1] -> (0) : 0..60, 62..ffff
+					    -> [1] : 61`,
+			},
 		]);
 
 		interface TestCase {
@@ -646,6 +718,151 @@ describe("DFA", function () {
 		}
 	});
 
+	describe("JSON", function () {
+		const literals: Literal[] = [
+			...FINITE_LITERALS,
+			...NON_FINITE_LITERALS,
+			/\/\*[\s\S]*?\*\/|\/\/.*/,
+			/\b(?:true|false|null)\b/u,
+			/[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/u,
+		];
+		for (const literal of literals) {
+			it(`round trip ${literalToString(literal)}`, function () {
+				const fa = literalToDFA(literal);
+				const json = JSON.parse(JSON.stringify(fa));
+				assert.deepEqual(json, fa.toJSON());
+
+				const loaded = DFA.fromJSON(json);
+				assert.strictEqual(loaded.maxCharacter, fa.maxCharacter);
+				assert.strictEqual(loaded.toString(), fa.toString());
+			});
+		}
+
+		it("a|bc", function () {
+			assert.deepEqual(literalToDFA(/a|bc/).toJSON(), {
+				version: 1,
+				maxCharacter: 0xffff,
+				states: 3,
+				initial: 0,
+				finals: [1],
+				transitions: [
+					{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x61 }] },
+					{ from: 0, to: 2, ranges: [{ min: 0x62, max: 0x62 }] },
+					{ from: 2, to: 1, ranges: [{ min: 0x63, max: 0x63 }] },
+				],
+			});
+		});
+
+		it("rejects invalid JSON", function () {
+			const valid: FAJSON = {
+				version: 1,
+				maxCharacter: 0xff,
+				states: 2,
+				initial: 0,
+				finals: [1],
+				transitions: [{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x61 }] }],
+			};
+			assert.doesNotThrow(() => DFA.fromJSON(valid));
+
+			const invalid: unknown[] = [
+				null,
+				[],
+				{ ...valid, version: 2 },
+				{ ...valid, maxCharacter: -1 },
+				{ ...valid, states: 0 },
+				{ ...valid, initial: 2 },
+				{ ...valid, finals: [0.5] },
+				{ ...valid, finals: undefined },
+				{ ...valid, transitions: [{ from: 0, to: 2, ranges: [{ min: 0x61, max: 0x61 }] }] },
+				{ ...valid, transitions: [{ from: 0, to: 1, ranges: [] }] },
+				{ ...valid, transitions: [{ from: 0, to: 1, ranges: [{ min: 0x62, max: 0x61 }] }] },
+				{ ...valid, transitions: [{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x100 }] }] },
+			];
+			for (const json of invalid) {
+				assert.throws(() => DFA.fromJSON(json as FAJSON), /Invalid FA JSON/, JSON.stringify(json));
+			}
+		});
+
+		it("rejects non-deterministic FA", function () {
+			const json: FAJSON = {
+				version: 1,
+				maxCharacter: 0xff,
+				states: 3,
+				initial: 0,
+				finals: [1, 2],
+				transitions: [
+					{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x63 }] },
+					{ from: 0, to: 2, ranges: [{ min: 0x63, max: 0x64 }] },
+				],
+			};
+			assert.doesNotThrow(() => NFA.fromJSON(json));
+			assert.throws(() => DFA.fromJSON(json), /not deterministic/);
+		});
+	});
+
+	describe("toBytes & fromBytes", function () {
+		const literals: Literal[] = [
+			...FINITE_LITERALS,
+			...NON_FINITE_LITERALS,
+			/\/\*[\s\S]*?\*\/|\/\/.*/,
+			/\b(?:true|false|null)\b/u,
+			/[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/u,
+		];
+		for (const literal of literals) {
+			it(`round trip ${literalToString(literal)}`, function () {
+				const dfa = literalToDFA(literal);
+				const loaded = DFA.fromBytes(dfa.toBytes());
+				assert.strictEqual(loaded.maxCharacter, dfa.maxCharacter);
+				assert.isTrue(loaded.structurallyEqual(dfa));
+			});
+		}
+
+		it("a|bc", function () {
+			// prettier-ignore
+			const expected = [
+				1, 0xff, 0xff, 0x03, 3, // version, max character, states
+				4, 0x61, 0, 1, 0, 0, 2, // state 0 with 2 transitions
+				1, // final state 1
+				2, 0x63, 0, 1, // state 2 with 1 transition
+			];
+			assert.deepEqual([...literalToDFA(/a|bc/).toBytes()], expected);
+		});
+
+		it("rejects invalid data", function () {
+			const invalid: number[][] = [
+				[],
+				[2, 0x7f, 1, 0],
+				[1, 0x7f, 0],
+				[1, 0x7f, 1, 2, 0x61, 0],
+				[1, 0x7f, 1, 2, 0x61, 0, 1],
+				[1, 0x7f, 1, 2, 0x61, 0x1f, 0],
+				[1, 0x7f, 1, 0, 0],
+				[1, 0xff],
+				[1, 0x7f, 0xff, 0xff, 0xff, 0x7f, 0],
+				[1, 0x7f, 2, 4, 0x61, 0, 1, 0],
+				[1, 0x7f, 1, 0xfe, 0xff, 0xff, 0x7f, 0, 0, 0],
+			];
+			for (const bytes of invalid) {
+				assert.throws(() => DFA.fromBytes(Uint8Array.from(bytes)), /Invalid DFA binary data/, `${bytes}`);
+			}
+		});
+
+		it("removes unreachable states", function () {
+			// prettier-ignore
+			const bytes = [
+				1, 0x7f, 3, // version, max character, states
+				3, 0x61, 0, 1, // final state 0 with a transition to the trap state 1
+				0, // trap state 1
+				1, // unreachable final state 2
+			];
+			const dfa = DFA.fromBytes(Uint8Array.from(bytes));
+			assert.strictEqual(dfa.nodes.count(), 1);
+			assert.isTrue(dfa.structurallyEqual(literalToDFA(/(?:)/)));
+		});
+	});
+
+	testEquivalence(literalToDFA);
+
 	describe("isEmpty", function () {
 		it("constructed from 0 words", function () {
 			// empty language
@@ -674,6 +891,109 @@ describe("DFA", function () {
 		});
 	});
 
+	describe("countWords", function () {
+		it("counts words by length", function () {
+			const dfa = literalToDFA(/[a-c]{2,4}|\d/);
+			assert.strictEqual(dfa.countWords(), BigInt(10 + 9 + 27 + 81));
+			assert.strictEqual(dfa.countWords(3), BigInt(27));
+			assert.strictEqual(dfa.countWords(1, 2), BigInt(10 + 9));
+		});
+
+		it("ignores trap states", function () {
+			const withTrap = DFA.fromJSON({
+				version: 1,
+				maxCharacter: 0xff,
+				states: 3,
+				initial: 0,
+				finals: [1],
+				transitions: [
+					{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x61 }] },
+					{ from: 0, to: 2, ranges: [{ min: 0x62, max: 0x62 }] },
+					{ from: 2, to: 2, ranges: [{ min: 0x62, max: 0x62 }] },
+				],
+			});
+			assert.isTrue(withTrap.isViablePrefix(fromStringToUnicode("a")));
+			assert.isFalse(withTrap.isViablePrefix(fromStringToUnicode("b")));
+			assert.strictEqual(
+				withTrap.viableContinuations([]).toString(),
+				CharSet.empty(0xff)
+					.union([{ min: 0x61, max: 0x61 }])
+					.toString()
+			);
+		});
+
+		it("counts words of infinite languages by length", function () {
+			const dfa = literalToDFA(/[^]*/u);
+			assert.strictEqual(dfa.countWords(2), BigInt(0x110000 ** 2));
+			assert.throws(() => dfa.countWords());
+		});
+	});
+
+	describe("sampleWords", function () {
+		it("only returns accepted words within the given bounds", function () {
+			const dfa = literalToDFA(/\w+@\w+\.(?:com|org)/);
+			const words = dfa.sampleWords({ minLength: 9, maxLength: 20, count: 100, seed: 42 });
+			assert.strictEqual(words.length, 100);
+			for (const word of words) {
+				assert.isTrue(dfa.test(word), fromUnicodeToString(word));
+				assert.isAtLeast(word.length, 9);
+				assert.isAtMost(word.length, 20);
+			}
+
+			for (const word of dfa.sampleWords({ length: 12, count: 10, seed: 42 })) {
+				assert.isTrue(dfa.test(word), fromUnicodeToString(word));
+				assert.strictEqual(word.length, 12);
+			}
+		});
+
+		it("is deterministic for a given seed", function () {
+			const dfa = literalToDFA(/[a-z]{3,8}\d*/);
+			const options = { minLength: 3, maxLength: 12, count: 10, seed: 7 };
+			assert.deepEqual(dfa.sampleWords(options), dfa.sampleWords(options));
+		});
+
+		it("draws words uniformly", function () {
+			// 1 word of length 1 and 26 words of length 2
+			const dfa = literalToDFA(/a|b[a-z]/);
+			const counts = new Map<string, number>();
+			for (const word of dfa.sampleWords({ count: 2700, seed: 1 })) {
+				const key = fromUnicodeToString(word);
+				counts.set(key, (counts.get(key) ?? 0) + 1);
+			}
+			assert.strictEqual(counts.size, 27);
+			for (const [word, count] of counts) {
+				assert.isAtLeast(count, 60, word);
+				assert.isAtMost(count, 140, word);
+			}
+		});
+
+		it("uses the given random number generator", function () {
+			const dfa = literalToDFA(/[a-z]/);
+			assert.deepEqual(dfa.sampleWords({ count: 2, rng: () => 0 }), [[0x61], [0x61]]);
+
+			let calls = 0;
+			dfa.sampleWords({ count: 3, rng: () => (calls++ % 10) / 10 });
+			assert.isAtLeast(calls, 3);
+		});
+
+		it("returns no words if there are none", function () {
+			assert.deepEqual(literalToDFA(/a{3}/).sampleWords({ length: 2, count: 5 }), []);
+			assert.deepEqual(literalToDFA(/[^\s\S]/).sampleWords({ count: 5 }), []);
+		});
+
+		it("requires a maximum length for infinite languages", function () {
+			assert.throws(() => literalToDFA(/a+/).sampleWords());
+			assert.strictEqual(literalToDFA(/a+/).sampleWords({ maxLength: 100, count: 3 }).length, 3);
+		});
+
+		it("rejects an exact length combined with a length range", function () {
+			const dfa = literalToDFA(/a*/);
+			assert.throws(() => dfa.sampleWords({ length: 2, minLength: 1 }), RangeError);
+			assert.throws(() => dfa.sampleWords({ length: 2, maxLength: 3 }), RangeError);
+			assert.deepEqual(dfa.sampleWords({ length: 2 }), [[0x61, 0x61]]);
+		});
+	});
+
 	describe("isFinite", function () {
 		describe("true", function () {
 			for (const literal of FINITE_LITERALS) {
@@ -755,6 +1075,273 @@ describe("DFA", function () {
 		}
 	});
 
+	describe("infixes", function () {
+		test([
+			{
+				words: [],
+			},
+			{
+				words: [""],
+			},
+			{
+				words: ["", "a"],
+			},
+			{
+				words: ["", "a", "aa", "aaa"],
+			},
+			{
+				words: ["foobar", "foo", "bar"],
+			},
+			{
+				words: ["bet", "let", "street", "sheet", "diet"],
+			},
+			{
+				words: ["bet", "bat", "boot", "boat"],
+			},
+		]);
+
+		interface TestCase {
+			words: readonly string[];
+		}
+
+		function test(cases: TestCase[]): void {
+			for (const { words } of cases) {
+				const title = words.map(w => JSON.stringify(w)).join(", ");
+				it(`${title}`, function () {
+					const chars = words.map(w => fromStringToUnicode(w));
+					const nfa = DFA.fromWords(chars, { maxCharacter: 0x10ffff });
+					nfa.infixes();
+
+					const acutal = [...new Set([...nfa.words()].map(fromUnicodeToString))];
+					const expected = [...infixes(words)];
+					assert.sameMembers(acutal, expected);
+				});
+			}
+		}
+	});
+
+	describe("leftQuotient & rightQuotient", function () {
+		const cases: [Literal, Literal][] = [
+			[/ab*c/, /ab*/],
+			[/ab*c/, /b*c/],
+			[/a*/, /a*/],
+			[/foo|foobar|bar/, /|foo|bar/],
+			[/\w+\.txt/, /\.txt/],
+			[/https?:\/\/[a-z]+\/\w*/, /https:\/\//],
+			[/(?:ab)+/, /a|b/],
+			[/[^]*a[^]{3}/, /[^]{2}/],
+			[/a/, /[^\s\S]/],
+		];
+
+		for (const [literal, by] of cases) {
+			it(`${literalToString(literal)} by ${literalToString(by)}`, function () {
+				const byNfa = literalToNFA(by);
+
+				const left = literalToDFA(literal);
+				left.leftQuotient(byNfa);
+				const expectedLeft = literalToNFA(literal);
+				expectedLeft.leftQuotient(byNfa);
+				assert.isTrue(left.isEquivalentTo(expectedLeft).equivalent, "left");
+
+				const right = literalToDFA(literal);
+				right.rightQuotient(byNfa);
+				const expectedRight = literalToNFA(literal);
+				expectedRight.rightQuotient(byNfa);
+				assert.isTrue(right.isEquivalentTo(expectedRight).equivalent, "right");
+			});
+		}
+
+		it("by itself", function () {
+			const dfa = literalToDFA(/a|ab/);
+			dfa.leftQuotient(dfa);
+			assert.sameMembers([...dfa.words()].map(fromUnicodeToString), ["", "b"]);
+		});
+	});
+
+	describe("fromUnion & fromDifference & fromSymmetricDifference", function () {
+		const pairs: [Literal, Literal][] = [
+			[/a/, /b/],
+			[/a*/, /a+/],
+			[/[a-f]+/, /[d-z]+/],
+			[/(?:ab)*/, /a(?:ba)*b|/],
+			[/\d+(?:\.\d+)?/, /\d*\.\d+/],
+			[/foo|bar/, /[^\s\S]/],
+			[/(?:)/, /a*/],
+			[/[^]*/, /[^]*a[^]*/],
+		];
+
+		function complement(dfa: DFA): DFA {
+			const copy = dfa.copy();
+			copy.complement();
+			return copy;
+		}
+
+		for (const [leftLiteral, rightLiteral] of pairs) {
+			it(`${literalToString(leftLiteral)} and ${literalToString(rightLiteral)}`, function () {
+				const left = literalToDFA(leftLiteral);
+				const right = literalToDFA(rightLiteral);
+
+				const union = NFA.fromFA(left);
+				union.union(NFA.fromFA(right));
+				const leftOnly = DFA.fromIntersection(left, complement(right));
+				const rightOnly = DFA.fromIntersection(right, complement(left));
+				const either = NFA.fromFA(leftOnly);
+				either.union(NFA.fromFA(rightOnly));
+
+				assert.isTrue(DFA.fromUnion(left, right).isEquivalentTo(union).equivalent, "union");
+				assert.isTrue(DFA.fromDifference(left, right).isEquivalentTo(leftOnly).equivalent, "difference");
+				assert.isTrue(
+					DFA.fromSymmetricDifference(left, right).isEquivalentTo(either).equivalent,
+					"symmetric difference"
+				);
+			});
+		}
+
+		it("does not modify the given DFA", function () {
+			const left = literalToDFA(/a+b/);
+			const right = literalToDFA(/a*c/);
+			const leftString = left.toString();
+			const rightString = right.toString();
+			DFA.fromUnion(left, right);
+			DFA.fromDifference(left, right);
+			DFA.fromSymmetricDifference(left, right);
+			assert.strictEqual(left.toString(), leftString);
+			assert.strictEqual(right.toString(), rightString);
+		});
+
+		it("removes trap states", function () {
+			const dfa = DFA.fromDifference(literalToDFA(/ab|ac/), literalToDFA(/a[bc]/));
+			assert.isTrue(dfa.isEmpty);
+			assert.strictEqual(dfa.nodes.count(), 1);
+		});
+
+		it("does not explore the right DFA beyond the left DFA for the difference", function () {
+			const right = literalToDFA(/[^]*a[^]{7}/);
+			assert.isAbove(right.nodes.count(), 100);
+			const dfa = DFA.fromDifference(literalToDFA(/ab?/), right, { maxNodes: 10 });
+			assert.isTrue(dfa.isEquivalentTo(literalToDFA(/ab?/)).equivalent);
+		});
+	});
+
+	describe("isViablePrefix & viableContinuations", function () {
+		const dfa = literalToDFA(/\d{3}-\d{4}|\(\d{3}\) \d{3}-\d{4}/);
+
+		function continuations(word: string): CharSet {
+			return dfa.viableContinuations(fromStringToUnicode(word));
+		}
+		function chars(...ranges: CharRange[]): CharSet {
+			return CharSet.empty(0xffff).union(ranges);
+		}
+
+		it("isViablePrefix", function () {
+			for (const word of ["", "1", "123", "123-", "123-4567", "(", "(123) 4"]) {
+				assert.isTrue(dfa.isViablePrefix(fromStringToUnicode(word)), JSON.stringify(word));
+			}
+			for (const word of ["a", "1234", "123-45678", "(1)", "123 "]) {
+				assert.isFalse(dfa.isViablePrefix(fromStringToUnicode(word)), JSON.stringify(word));
+			}
+		});
+
+		it("viableContinuations", function () {
+			const digits = { min: 0x30, max: 0x39 };
+			assert.isTrue(continuations("").equals(chars({ min: 0x28, max: 0x28 }, digits)));
+			assert.isTrue(continuations("12").equals(chars(digits)));
+			assert.isTrue(continuations("123").equals(chars({ min: 0x2d, max: 0x2d })));
+			assert.isTrue(continuations("(123)").equals(chars({ min: 0x20, max: 0x20 })));
+			assert.isTrue(continuations("123-4567").isEmpty);
+			assert.isTrue(continuations("a").isEmpty);
+		});
+
+		it("ignores trap states", function () {
+			const trap = literalToDFA(/ab|ac/);
+			const other = literalToDFA(/ab/);
+			const difference = DFA.fromIntersection(trap, other);
+			difference.complement();
+			difference.complement();
+			// a DFA whose states are not all able to reach a final state
+			const withTrap = DFA.fromIntersection(trap, other);
+			const c = fromStringToUnicode("ac");
+			assert.isFalse(withTrap.isViablePrefix(c));
+			assert.isFalse(difference.isViablePrefix(c));
+			assert.isTrue(withTrap.isViablePrefix(fromStringToUnicode("a")));
+		});
+	});
+
+	describe("diagnose", function () {
+		const cases: [Literal, string[]][] = [
+			[/\d{3}-\d{4}|\d+x/, ["", "1", "123", "123-4567", "123-45a", "12-", "12x", "12xx"]],
+			[/foo(?:bar)*|fuzz/, ["", "f", "fo", "foobarba", "foobarbaz", "fuz", "fuzzy", "x"]],
+			[/[^\s\S]/, ["", "a"]],
+		];
+
+		for (const [literal, words] of cases) {
+			it(`${literalToString(literal)} agrees with NFA`, function () {
+				const nfa = literalToNFA(literal);
+				const dfa = DFA.fromFA(nfa);
+				for (const word of words) {
+					const chars = fromStringToUnicode(word);
+					const expected = nfa.diagnose(chars);
+					const actual = dfa.diagnose(chars);
+					assert.deepEqual(
+						{ ...actual, expected: actual.expected.toString() },
+						{ ...expected, expected: expected.expected.toString() },
+						JSON.stringify(word)
+					);
+					assert.strictEqual(actual.accepted, dfa.test(chars));
+					assert.strictEqual(actual.incomplete, !actual.accepted && dfa.isViablePrefix(chars));
+					assert.isTrue(actual.expected.equals(dfa.viableContinuations(actual.prefix)));
+				}
+			});
+		}
+	});
+
+	describe("completions", function () {
+		const dfa = literalToDFA(/--(?:help|version|verbose)|-[hv]|\d+/);
+
+		function completions(prefix: string, options?: DFA.CompletionsOptions): string[] {
+			return dfa.completionWords(fromStringToUnicode(prefix), options).map(fromUnicodeToString);
+		}
+
+		it("returns all completions", function () {
+			assert.sameMembers(completions("--ver"), ["bose", "sion"]);
+			assert.sameMembers(completions("--"), ["help", "version", "verbose"]);
+		});
+
+		it("returns the shortest completions first", function () {
+			const wordSets = dfa.completions(fromStringToUnicode("-"));
+			assert.deepEqual(
+				wordSets.map(ws => ws.length),
+				[1, 5, 8, 8]
+			);
+			assert.isTrue(
+				wordSets[0][0].equals(
+					CharSet.empty(0xffff).union([
+						{ min: 0x68, max: 0x68 },
+						{ min: 0x76, max: 0x76 },
+					])
+				)
+			);
+
+			assert.deepEqual(
+				completions("1", { limit: 3 }).map(w => w.length),
+				[0, 1, 2]
+			);
+		});
+
+		it("respects limit and maxLength", function () {
+			assert.strictEqual(completions("", { limit: 25 }).length, 25);
+			assert.strictEqual(completions("", { limit: 0 }).length, 0);
+			assert.strictEqual(dfa.completions(fromStringToUnicode("-"), { maxLength: 4 }).length, 1);
+			assert.deepEqual(completions("--", { maxLength: 4 }), ["help"]);
+		});
+
+		it("accepted and impossible prefixes", function () {
+			assert.deepEqual(completions("--help"), [""]);
+			assert.deepEqual(completions("--helpx"), []);
+			assert.deepEqual(completions("x"), []);
+		});
+	});
+
 	describe("Safe creation", function () {
 		const testDfa = literalToDFA(/a{1000}/);
 
@@ -768,6 +1355,21 @@ describe("DFA", function () {
 				DFA.fromIntersection(testDfa, testDfa, { maxNodes: 100 });
 			});
 		});
+		it(DFA.fromUnion.name, function () {
+			assert.throws(() => {
+				DFA.fromUnion(testDfa, literalToDFA(/(?:a{1000})*/), { maxNodes: 100 });
+			});
+		});
+		it(DFA.fromDifference.name, function () {
+			assert.throws(() => {
+				DFA.fromDifference(testDfa, literalToDFA(/b/), { maxNodes: 100 });
+			});
+		});
+		it(DFA.fromSymmetricDifference.name, function () {
+			assert.throws(() => {
+				DFA.fromSymmetricDifference(testDfa, literalToDFA(/b/), { maxNodes: 100 });
+			});
+		});
 		it(DFA.fromTransitionIterator.name, function () {
 			assert.throws(() => {
 				DFA.fromTransitionIterator(testDfa.transitionIterator(), testDfa.options, { maxNodes: 100 });
@@ -778,6 +1380,12 @@ describe("DFA", function () {
 				DFA.fromWords(testDfa.words(), testDfa.options, { maxNodes: 100 });
 			});
 		});
+		it(DFA.fromRegex.name, function () {
+			const { expression, maxCharacter } = Parser.fromLiteral(/a{1000}/).parse();
+			assert.throws(() => {
+				DFA.fromRegex(expression, { maxCharacter }, { maxNodes: 100 });
+			});
+		});
 	});
 });
 
@@ -0,0 +1,68 @@
+import { assert } from "chai";
+import { Literal } from "../../src/js";
+import { TransitionIterableFA } from "../../src/finite-automaton";
+import { fromStringToUnicode } from "../../src/words";
+import { literalToString } from "./fa";
+
+/**
+ * Defines the tests of `isEquivalentTo` and `isSubsetOf` for the FA created by the given function.
+ *
+ * @param toFA
+ */
+export function testEquivalence(toFA: (literal: Literal) => TransitionIterableFA): void {
+	describe("isEquivalentTo", function () {
+		const cases: { literals: [Literal, Literal]; expected?: { word: string; acceptedBy: "this" | "other" } }[] = [
+			{ literals: [/a+b+c+|a*/, /a*(?:a+b+c+)?/] },
+			{ literals: [/[ \t]+\S+|[ \t]+['"]\S|[ \t]+/, /[ \t]+\S*/] },
+			{ literals: [/(?:a|b)*abb/, /[ab]*abb/] },
+			{ literals: [/a*/, /a+/], expected: { word: "", acceptedBy: "this" } },
+			{ literals: [/a+/, /a{2,}/], expected: { word: "a", acceptedBy: "this" } },
+			{ literals: [/ab/, /ab|ba/], expected: { word: "ba", acceptedBy: "other" } },
+			{ literals: [/[ab]+d/, /[a-c]+d/], expected: { word: "cd", acceptedBy: "other" } },
+			{ literals: [/a{0,5}/, /a{0,6}/], expected: { word: "aaaaaa", acceptedBy: "other" } },
+		];
+
+		for (const { literals, expected } of cases) {
+			const [a, b] = literals;
+			it(`${literalToString(a)} vs ${literalToString(b)}`, function () {
+				const result = toFA(a).isEquivalentTo(toFA(b));
+				if (expected === undefined) {
+					assert.deepEqual(result, { equivalent: true });
+				} else {
+					const { word, acceptedBy } = expected;
+					assert.deepEqual(result, { equivalent: false, word: fromStringToUnicode(word), acceptedBy });
+				}
+			});
+		}
+	});
+
+	describe("isSubsetOf", function () {
+		const cases: { literals: [Literal, Literal]; expected?: string }[] = [
+			{ literals: [/[^\s\S]/, /a/] },
+			{ literals: [/a+/, /a*/] },
+			{ literals: [/ab|ba/, /[ab]{2}/] },
+			{ literals: [/(?:0|[1-9]\d*)\.\d+/, /\d+\.\d*/] },
+			{ literals: [/a*/, /a+/], expected: "" },
+			{ literals: [/[ab]{2}/, /ab|ba/], expected: "aa" },
+			{ literals: [/\d+\.\d*/, /(?:0|[1-9]\d*)\.\d+/], expected: "0." },
+		];
+
+		for (const { literals, expected } of cases) {
+			const [a, b] = literals;
+			it(`${literalToString(a)} ⊆ ${literalToString(b)}`, function () {
+				const result = toFA(a).isSubsetOf(toFA(b));
+				if (expected === undefined) {
+					assert.deepEqual(result, { subset: true });
+				} else {
+					assert.deepEqual(result, { subset: false, word: fromStringToUnicode(expected) });
+				}
+			});
+		}
+
+		it("respects maxNodes", function () {
+			const a = toFA(/[ab]*a[ab]{10}/);
+			const b = toFA(/[ab]*a[ab]{9}/);
+			assert.throws(() => a.isSubsetOf(b, { maxNodes: 100 }));
+		});
+	});
+}
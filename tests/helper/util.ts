@@ -23,3 +23,7 @@ export function suffixes(iter: Iterable<string>): Set<string> {
 
 	return set;
 }
+
+export function infixes(iter: Iterable<string>): Set<string> {
+	return suffixes(prefixes(iter));
+}
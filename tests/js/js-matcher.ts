@@ -0,0 +1,66 @@
+import { assert } from "chai";
+import { Literal, toMatcherSource } from "../../src/js";
+import { literalToDFA, literalToString } from "../helper/fa";
+import { fromUnicodeToString } from "../../src/words";
+
+describe("JS.toMatcherSource", function () {
+	function compile(source: string): (input: string | number[]) => boolean {
+		return new Function(`return ${source};`)();
+	}
+
+	const cases: { literal: Literal; inputs: string[] }[] = [
+		{ literal: /[^\s\S]/, inputs: ["", "a"] },
+		{ literal: /(?:)/, inputs: ["", "a"] },
+		{ literal: /a|bc/, inputs: ["", "a", "b", "bc", "abc", "bcc"] },
+		{ literal: /[^]*/, inputs: ["", "a", "￿", "😀"] },
+		{
+			literal: /(?:0|[1-9]\d*)(?:\.\d+)?(?:e[+-]?\d+)?/i,
+			inputs: ["", "0", "01", "10", "1.5", "1.", "1e5", "1E-10", "1.5e+3", "e5"],
+		},
+		{
+			literal: /[a-zA-Z_$][\w$]*|[À-ÖØ-öø-˿]+/,
+			inputs: ["", "a", "_foo$1", "1a", "ÀØ", "×", "aÀ"],
+		},
+		{ literal: /\p{L}+/u, inputs: ["", "abc", "äöü", "𝐀", "\uD835", "a1"] },
+		{ literal: /[𝐀-𝐙]/u, inputs: ["𝐀", "\uD835", "𝐀𝐀"] },
+	];
+
+	for (const { literal, inputs } of cases) {
+		it(literalToString(literal), function () {
+			const dfa = literalToDFA(literal);
+			const matches = compile(toMatcherSource(dfa));
+
+			let count = 0;
+			for (const word of dfa.words()) {
+				if (count++ >= 100) {
+					break;
+				}
+				const input = fromUnicodeToString(word);
+				assert.isTrue(matches(input), JSON.stringify(input));
+				assert.isTrue(matches(word), JSON.stringify(word));
+			}
+
+			for (const input of inputs) {
+				const word = literal.flags.includes("u")
+					? [...input].map(c => c.codePointAt(0)!)
+					: [...input].map((_, i) => input.charCodeAt(i));
+				assert.strictEqual(matches(input), dfa.test(word), JSON.stringify(input));
+				assert.strictEqual(matches(word), dfa.test(word), JSON.stringify(word));
+			}
+		});
+	}
+
+	it("rejects characters greater than the maximum character", function () {
+		const matches = compile(toMatcherSource(literalToDFA(/[^]/)));
+		assert.isTrue(matches([0xffff]));
+		assert.isFalse(matches([0x10000]));
+	});
+
+	it("custom names", function () {
+		assert.match(toMatcherSource(literalToDFA(/a/), { name: "isA" }), /^function isA\(input\) \{/);
+		assert.throws(() => toMatcherSource(literalToDFA(/a/), { name: "is-a" }), RangeError);
+		for (const name of ["function", "class", "let", "null", "eval"]) {
+			assert.throws(() => toMatcherSource(literalToDFA(/a/), { name }), RangeError);
+		}
+	});
+});
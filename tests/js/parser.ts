@@ -170,6 +170,46 @@ describe("JS.Parser", function () {
 		]);
 	});
 
+	describe("parse options: captures", function () {
+		test([
+			{
+				literal: /a(b|c)(d)(?:e)/,
+				options: {
+					captures: "ignore",
+				},
+				expected: "[61](?:[62]|[63])[64][65]",
+			},
+			{
+				literal: /a(b|c)(d)(?:e)/,
+				options: {
+					captures: "keep",
+				},
+				expected: "[61]([62]|[63])([64])[65]",
+			},
+			{
+				literal: /(a)|(?:b)/,
+				options: {
+					captures: "keep",
+				},
+				expected: "([61])|[62]",
+			},
+			{
+				literal: /(a)*(b)+(?:(c)|d)?/,
+				options: {
+					captures: "keep",
+				},
+				expected: "(?:([61]))*(?:([62]))+(?:([63])|[64])?",
+			},
+			{
+				literal: /a([^\s\S])|b/,
+				options: {
+					captures: "keep",
+				},
+				expected: "[62]",
+			},
+		]);
+	});
+
 	describe("parse options: backreferences", function () {
 		test([
 			{
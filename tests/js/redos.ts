@@ -0,0 +1,74 @@
+import { assert } from "chai";
+import { analyzeReDoS, Literal, Parser, ReDoSFinding } from "../../src/js";
+import { literalToString } from "../helper/fa";
+
+describe("JS.analyzeReDoS", function () {
+	function analyze(literal: Literal): ReDoSFinding[] {
+		return analyzeReDoS(Parser.fromLiteral(literal).parse());
+	}
+
+	function assertAttack(literal: Literal, { attack }: ReDoSFinding): void {
+		// the regex must not match at the start of the attack string
+		const sticky = new RegExp(literal.source, literal.flags + "y");
+		for (let i = 1; i <= 5; i++) {
+			const input = attack.prefix + attack.pump.repeat(i) + attack.suffix;
+			assert.isFalse(sticky.test(input), JSON.stringify(input));
+		}
+	}
+
+	const cases: { literal: Literal; expected: { kind: ReDoSFinding["kind"]; degree: number }[] }[] = [
+		{ literal: /^(a+)+$/, expected: [{ kind: "exponential", degree: Infinity }] },
+		{ literal: /^(a|b|ab)*$/, expected: [{ kind: "exponential", degree: Infinity }] },
+		{ literal: /^(?:a|a)*b$/, expected: [{ kind: "exponential", degree: Infinity }] },
+		{ literal: /^(a*)*$/, expected: [{ kind: "exponential", degree: Infinity }] },
+		{ literal: /(a+)+b/, expected: [{ kind: "exponential", degree: Infinity }] },
+		{ literal: /^(\w+\s?)*$/, expected: [{ kind: "exponential", degree: Infinity }] },
+		{ literal: /^a*a*$/, expected: [{ kind: "polynomial", degree: 1 }] },
+		{ literal: /^a*b*a*c$/, expected: [{ kind: "polynomial", degree: 1 }] },
+		{
+			literal: /a*a*a*$/,
+			expected: [
+				{ kind: "polynomial", degree: 2 },
+				{ kind: "polynomial", degree: 2 },
+				{ kind: "polynomial", degree: 1 },
+			],
+		},
+		{ literal: /^\d+$/, expected: [] },
+		{ literal: /^[a-z]+\d*$/, expected: [] },
+		{ literal: /^(?:a|b)*$/, expected: [] },
+		{ literal: /^a{2,5}$/, expected: [] },
+		// always matches the empty string, so there is nothing to backtrack
+		{ literal: /(a|a)*/, expected: [] },
+		{ literal: /a*a*/, expected: [] },
+	];
+
+	for (const { literal, expected } of cases) {
+		it(literalToString(literal), function () {
+			const findings = analyze(literal);
+			assert.deepEqual(
+				findings.map(({ kind, degree }) => ({ kind, degree })),
+				expected
+			);
+			for (const finding of findings) {
+				assertAttack(literal, finding);
+			}
+		});
+	}
+
+	it("locations", function () {
+		const [finding] = analyze(/^x(a+)+$/);
+		assert.deepEqual(finding.locations, [{ start: 3, end: 4 }]);
+		assert.deepEqual(finding.quantifiers, [
+			{ start: 2, end: 7 },
+			{ start: 3, end: 5 },
+		]);
+		assert.deepEqual(finding.attack.prefix, "xa");
+		assert.deepEqual(finding.attack.pump, "a");
+	});
+
+	it("Unicode attack strings", function () {
+		const [finding] = analyze(/^(?:😀+)+$/u);
+		assert.deepEqual(finding.attack.pump, "😀");
+		assertAttack(/^(?:😀+)+$/u, finding);
+	});
+});
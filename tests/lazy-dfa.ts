@@ -0,0 +1,75 @@
+import { assert } from "chai";
+import { LazyDFA } from "../src/lazy-dfa";
+import { DFA } from "../src/dfa";
+import { TooManyNodesError } from "../src/finite-automaton";
+import { literalToNFA, literalToString } from "./helper/fa";
+import { Literal } from "../src/js";
+import { fromStringToUTF16 } from "../src/words";
+
+describe("LazyDFA", function () {
+	describe("test", function () {
+		const cases: { literal: Literal; words: string[] }[] = [
+			{ literal: /[^\s\S]/, words: ["", "a"] },
+			{ literal: /(?:)/, words: ["", "a"] },
+			{ literal: /a*d|bb*/, words: ["", "a", "d", "ad", "aad", "b", "bbb", "bd", "abd"] },
+			{
+				literal: /(?:0|[1-9]\d*)(?:\.\d+)?(?:e[+-]?\d+)?/i,
+				words: ["", "0", "01", "10", "1.5", "1.", "1e5", "1E-10", "1.5e+3", "e5"],
+			},
+			{ literal: /(?:a|b)*a(?:a|b){3}/, words: ["", "aaaa", "abbb", "babbb", "bbbb", "aaaab", "ababab"] },
+		];
+
+		for (const { literal, words } of cases) {
+			it(literalToString(literal), function () {
+				const nfa = literalToNFA(literal);
+				const lazy = LazyDFA.fromFA(nfa);
+				for (const word of words.map(fromStringToUTF16)) {
+					assert.strictEqual(lazy.test(word), nfa.test(word), JSON.stringify(word));
+				}
+			});
+		}
+	});
+
+	it("matches patterns that cannot be determinized eagerly", function () {
+		const nfa = literalToNFA(/(?:a|b)*a(?:a|b){20}/);
+		assert.throws(() => DFA.fromFA(nfa), TooManyNodesError);
+
+		const lazy = LazyDFA.fromFA(nfa, { maxCachedStates: 100 });
+		let seed = 1;
+		for (let i = 0; i < 50; i++) {
+			let word = "";
+			for (let j = 0; j < 200; j++) {
+				seed = (seed * 1103515245 + 12345) % 2147483648;
+				word += seed % 3 === 0 ? "b" : "a";
+			}
+			const expected = word[word.length - 21] === "a";
+			assert.strictEqual(lazy.test(fromStringToUTF16(word)), expected);
+			assert.isAtMost(lazy.cachedStates, 100);
+		}
+		assert.isAbove(lazy.flushes, 0);
+	});
+
+	it("reuses cached states", function () {
+		const lazy = LazyDFA.fromFA(literalToNFA(/[a-z]+\d*/));
+		assert.strictEqual(lazy.cachedStates, 1);
+
+		assert.isTrue(lazy.test(fromStringToUTF16("abc123")));
+		const cached = lazy.cachedStates;
+		assert.isTrue(lazy.test(fromStringToUTF16("xyz9")));
+		assert.isFalse(lazy.test(fromStringToUTF16("1a")));
+		assert.strictEqual(lazy.cachedStates, cached);
+		assert.strictEqual(lazy.flushes, 0);
+
+		lazy.clearCache();
+		assert.strictEqual(lazy.cachedStates, 1);
+		assert.isTrue(lazy.test(fromStringToUTF16("abc123")));
+	});
+
+	it("rejects characters outside the alphabet", function () {
+		const lazy = LazyDFA.fromFA(literalToNFA(/[^]/));
+		assert.isTrue(lazy.test([0xffff]));
+		assert.isFalse(lazy.test([0x10000]));
+		assert.isFalse(lazy.test([-1]));
+		assert.isFalse(lazy.test([0.5]));
+	});
+});
@@ -1,12 +1,23 @@
 import { NFA } from "../src/nfa";
 import { assert } from "chai";
 import { fromStringToUnicode, fromUnicodeToString } from "../src/words";
-import { literalToString, literalToNFA, removeIndentation, reachableFinalStates, literalToDFA } from "./helper/fa";
+import {
+	literalToString,
+	literalToNFA,
+	removeIndentation,
+	reachableFinalStates,
+	literalToDFA,
+	nfaEqual,
+} from "./helper/fa";
+import { testEquivalence } from "./helper/equivalence";
 import { FINITE_LITERALS, NON_FINITE_LITERALS, NON_EMPTY_LITERALS, EMPTY_LITERALS } from "./helper/regexp-literals";
 import { Literal, Parser, toLiteral } from "../src/js";
 import { RegExpParser } from "regexpp";
-import { prefixes, suffixes } from "./helper/util";
+import { infixes, prefixes, suffixes } from "./helper/util";
 import { DFA } from "../src/dfa";
+import { CharRange, CharSet } from "../src/char-set";
+import { FAJSON, TooManyNodesError, WordLengthSet } from "../src/finite-automaton";
+import { faToDot } from "../src/fa-util";
 
 describe("NFA", function () {
 	describe("fromRegex", function () {
@@ -482,6 +493,44 @@ describe("NFA", function () {
 		}
 	});
 
+	describe("fromRegex with lookarounds", function () {
+		test([
+			{ literal: /(?=a)[ab]/, equivalent: /a/ },
+			{ literal: /(?!a)[ab]/, equivalent: /b/ },
+			{ literal: /[ab](?<=a)/, equivalent: /a/ },
+			{ literal: /[ab](?<!a)c/, equivalent: /bc/ },
+			{ literal: /a(?=b)/, equivalent: /[^\s\S]/ },
+			{ literal: /^a$/, equivalent: /a/ },
+			{ literal: /\bfoo\b/, equivalent: /foo/ },
+			{ literal: /a\Bb|a\bb/, equivalent: /ab/ },
+			{ literal: /(?:\b\w+\b|\s)+/, equivalent: /[\w\s]+/ },
+			{ literal: /(?:a(?=b)|b)+/, equivalent: /(?:a?b)+/ },
+			{ literal: /(?:(?<=a)b|a)+/, equivalent: /(?:ab?)+/ },
+			{ literal: /(?=\d{3}$)\d+/, equivalent: /\d{3}/ },
+			{ literal: /(?=a(?=b))\w+/, equivalent: /ab\w*/ },
+			{ literal: /\w(?<=(?<!b)a)c/, equivalent: /ac/ },
+		]);
+
+		it("throws for lookbehinds inside lookaheads", function () {
+			assert.throws(() => literalToNFA(/(?=\ba)\w/));
+		});
+
+		interface TestCase {
+			literal: Literal;
+			equivalent: Literal;
+		}
+
+		function test(cases: TestCase[]): void {
+			for (const { literal, equivalent } of cases) {
+				it(`${literalToString(literal)} == ${literalToString(equivalent)}`, function () {
+					const nfa = literalToNFA(literal);
+					assert.isTrue(nfaEqual(nfa, literalToNFA(equivalent)));
+					assert.strictEqual(nfa.nodes.finals.size, reachableFinalStates(nfa));
+				});
+			}
+		}
+	});
+
 	describe("fromWords", function () {
 		test([
 			{
@@ -958,6 +1007,244 @@ describe("NFA", function () {
 		}
 	});
 
+	describe("toDot", function () {
+		it("matches the numbering of toString", function () {
+			const nfa = literalToNFA(/a*d|bb*/);
+			assert.strictEqual(
+				nfa.toString(),
+				removeIndentation(`
+					(0) -> (1) : 61
+					    -> [2] : 62
+					    -> [3] : 64
+
+					(1) -> (1) : 61
+					    -> [3] : 64
+
+					[2] -> [4] : 62
+
+					[3] -> none
+
+					[4] -> [4] : 62`)
+			);
+			assert.strictEqual(
+				nfa.toDot(),
+				removeIndentation(`
+					digraph {
+						rankdir=LR;
+						node [shape=circle];
+						start [shape=point, label=""];
+						start -> 0;
+
+						0 [label="0"];
+						1 [label="1"];
+						2 [label="2", shape=doublecircle];
+						3 [label="3", shape=doublecircle];
+						4 [label="4", shape=doublecircle];
+
+						0 -> 1 [label="61 'a'"];
+						0 -> 2 [label="62 'b'"];
+						0 -> 3 [label="64 'd'"];
+						1 -> 1 [label="61 'a'"];
+						1 -> 3 [label="64 'd'"];
+						2 -> 4 [label="62 'b'"];
+						4 -> 4 [label="62 'b'"];
+					}`)
+			);
+		});
+
+		it("with custom labels", function () {
+			const nfa = literalToNFA(/"(?:[^"\\]|\\.)*"/);
+			const charSetToString = (cs: CharSet): string =>
+				toLiteral({ type: "Concatenation", elements: [{ type: "CharacterClass", characters: cs }] }).source;
+			assert.strictEqual(
+				nfa.toDot({ charSetToString, stateIds: false }),
+				removeIndentation(`
+					digraph {
+						rankdir=LR;
+						node [shape=circle];
+						start [shape=point, label=""];
+						start -> 0;
+
+						0 [label=""];
+						1 [label=""];
+						2 [label=""];
+						3 [label="", shape=doublecircle];
+						4 [label=""];
+
+						0 -> 1 [label="\\""];
+						1 -> 2 [label="[^\\"\\\\\\\\]"];
+						1 -> 3 [label="\\""];
+						1 -> 4 [label="\\\\\\\\"];
+						2 -> 2 [label="[^\\"\\\\\\\\]"];
+						2 -> 3 [label="\\""];
+						2 -> 4 [label="\\\\\\\\"];
+						4 -> 2 [label="."];
+					}`)
+			);
+		});
+
+		it("empty", function () {
+			assert.strictEqual(
+				NFA.empty({ maxCharacter: 0xff }).toDot(),
+				removeIndentation(`
+					digraph {
+						rankdir=LR;
+						node [shape=circle];
+						start [shape=point, label=""];
+						start -> 0;
+
+						0 [label="0"];
+					}`)
+			);
+		});
+
+		it("faToDot", function () {
+			const nfa = literalToNFA(/a*d|bb*/);
+			const dfa = DFA.fromFA(nfa);
+			assert.strictEqual(faToDot(nfa.transitionIterator()), nfa.toDot());
+			assert.strictEqual(faToDot(dfa.transitionIterator(), { stateIds: false }), dfa.toDot({ stateIds: false }));
+		});
+	});
+
+	describe("toMermaid", function () {
+		it("state diagram", function () {
+			assert.strictEqual(
+				literalToNFA(/a*d|bb*/).toMermaid(),
+				removeIndentation(`
+					stateDiagram-v2
+						direction LR
+						state "0" as s0
+						state "1" as s1
+						state "2" as s2
+						state "3" as s3
+						state "4" as s4
+						[*] --> s0
+						s2 --> [*]
+						s3 --> [*]
+						s4 --> [*]
+						s0 --> s1 : 61 'a'
+						s0 --> s2 : 62 'b'
+						s0 --> s3 : 64 'd'
+						s1 --> s1 : 61 'a'
+						s1 --> s3 : 64 'd'
+						s2 --> s4 : 62 'b'
+						s4 --> s4 : 62 'b'`)
+			);
+		});
+
+		it("flowchart", function () {
+			const charSetToString = (cs: CharSet): string =>
+				toLiteral({ type: "Concatenation", elements: [{ type: "CharacterClass", characters: cs }] }).source;
+			assert.strictEqual(
+				literalToNFA(/"#*/).toMermaid({ diagram: "flowchart", charSetToString }),
+				removeIndentation(`
+					flowchart LR
+						start((" ")) --> s0
+						s0(("0"))
+						s1((("1")))
+						s2((("2")))
+						s0 -->|"#34;"| s1
+						s1 -->|"#35;"| s2
+						s2 -->|"#35;"| s2`)
+			);
+		});
+	});
+
+	describe("toGraphML", function () {
+		it("a<|b", function () {
+			const charSetToString = (cs: CharSet): string =>
+				toLiteral({ type: "Concatenation", elements: [{ type: "CharacterClass", characters: cs }] }).source;
+			assert.strictEqual(
+				literalToNFA(/a<|b/).toGraphML({ charSetToString, stateIds: false }),
+				removeIndentation(`
+					<?xml version="1.0" encoding="UTF-8"?>
+					<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+						<key id="initial" for="node" attr.name="initial" attr.type="boolean"><default>false</default></key>
+						<key id="final" for="node" attr.name="final" attr.type="boolean"><default>false</default></key>
+						<key id="node-label" for="node" attr.name="label" attr.type="string"/>
+						<key id="characters" for="edge" attr.name="characters" attr.type="string"/>
+						<key id="edge-label" for="edge" attr.name="label" attr.type="string"/>
+						<graph id="FA" edgedefault="directed">
+							<node id="n0"><data key="initial">true</data><data key="node-label"></data></node>
+							<node id="n1"><data key="node-label"></data></node>
+							<node id="n2"><data key="final">true</data><data key="node-label"></data></node>
+							<edge source="n0" target="n1"><data key="characters">61</data><data key="edge-label">a</data></edge>
+							<edge source="n0" target="n2"><data key="characters">62</data><data key="edge-label">b</data></edge>
+							<edge source="n1" target="n2"><data key="characters">3c</data><data key="edge-label">&lt;</data></edge>
+						</graph>
+					</graphml>`)
+			);
+		});
+	});
+
+	describe("JSON", function () {
+		const literals: Literal[] = [
+			...FINITE_LITERALS,
+			...NON_FINITE_LITERALS,
+			/\/\*[\s\S]*?\*\/|\/\/.*/,
+			/\b(?:true|false|null)\b/u,
+			/[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/u,
+		];
+		for (const literal of literals) {
+			it(`round trip ${literalToString(literal)}`, function () {
+				const fa = literalToNFA(literal);
+				const json = JSON.parse(JSON.stringify(fa));
+				assert.deepEqual(json, fa.toJSON());
+
+				const loaded = NFA.fromJSON(json);
+				assert.strictEqual(loaded.maxCharacter, fa.maxCharacter);
+				assert.strictEqual(loaded.toString(), fa.toString());
+			});
+		}
+
+		it("a|bc", function () {
+			assert.deepEqual(literalToNFA(/a|bc/).toJSON(), {
+				version: 1,
+				maxCharacter: 0xffff,
+				states: 3,
+				initial: 0,
+				finals: [1],
+				transitions: [
+					{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x61 }] },
+					{ from: 0, to: 2, ranges: [{ min: 0x62, max: 0x62 }] },
+					{ from: 2, to: 1, ranges: [{ min: 0x63, max: 0x63 }] },
+				],
+			});
+		});
+
+		it("rejects invalid JSON", function () {
+			const valid: FAJSON = {
+				version: 1,
+				maxCharacter: 0xff,
+				states: 2,
+				initial: 0,
+				finals: [1],
+				transitions: [{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x61 }] }],
+			};
+			assert.doesNotThrow(() => NFA.fromJSON(valid));
+
+			const invalid: unknown[] = [
+				null,
+				[],
+				{ ...valid, version: 2 },
+				{ ...valid, maxCharacter: -1 },
+				{ ...valid, states: 0 },
+				{ ...valid, initial: 2 },
+				{ ...valid, finals: [0.5] },
+				{ ...valid, finals: undefined },
+				{ ...valid, transitions: [{ from: 0, to: 2, ranges: [{ min: 0x61, max: 0x61 }] }] },
+				{ ...valid, transitions: [{ from: 0, to: 1, ranges: [] }] },
+				{ ...valid, transitions: [{ from: 0, to: 1, ranges: [{ min: 0x62, max: 0x61 }] }] },
+				{ ...valid, transitions: [{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x100 }] }] },
+			];
+			for (const json of invalid) {
+				assert.throws(() => NFA.fromJSON(json as FAJSON), /Invalid FA JSON/, JSON.stringify(json));
+			}
+		});
+	});
+
+	testEquivalence(literalToNFA);
+
 	describe("isEmpty", function () {
 		it("constructed from 0 words", function () {
 			// empty language
@@ -1004,6 +1291,435 @@ describe("NFA", function () {
 		});
 	});
 
+	describe("word lengths", function () {
+		const cases: {
+			literal: Literal;
+			min: number | undefined;
+			max: number | undefined;
+			lengths: WordLengthSet;
+		}[] = [
+			{ literal: /[^\s\S]/, min: undefined, max: undefined, lengths: { lengths: [], progressions: [] } },
+			{ literal: /(?:)/, min: 0, max: 0, lengths: { lengths: [0], progressions: [] } },
+			{ literal: /a{2}|b{4}|c{3,4}/, min: 2, max: 4, lengths: { lengths: [2, 3, 4], progressions: [] } },
+			{
+				literal: /\w{8,}/,
+				min: 8,
+				max: Infinity,
+				lengths: { lengths: [], progressions: [{ start: 8, step: 1 }] },
+			},
+			{
+				literal: /a(?:bc)*|d{2,3}/,
+				min: 1,
+				max: Infinity,
+				lengths: { lengths: [1, 2], progressions: [{ start: 3, step: 2 }] },
+			},
+			{
+				literal: /(?:aaa|aaaaa)*/,
+				min: 0,
+				max: Infinity,
+				lengths: { lengths: [0, 3, 5, 6], progressions: [{ start: 8, step: 1 }] },
+			},
+			{
+				literal: /(?:a{6})*(?:a{2}|a{5})/,
+				min: 2,
+				max: Infinity,
+				lengths: { lengths: [], progressions: [{ start: 2, step: 3 }] },
+			},
+			{
+				literal: /(?:a{4})+|(?:a{4})*a/,
+				min: 1,
+				max: Infinity,
+				lengths: {
+					lengths: [],
+					progressions: [
+						{ start: 1, step: 4 },
+						{ start: 4, step: 4 },
+					],
+				},
+			},
+		];
+
+		for (const { literal, min, max, lengths } of cases) {
+			it(literalToString(literal), function () {
+				for (const fa of [literalToNFA(literal), literalToDFA(literal)]) {
+					assert.strictEqual(fa.minWordLength, min);
+					assert.strictEqual(fa.maxWordLength, max);
+					assert.deepEqual(fa.wordLengths(), lengths);
+				}
+			});
+		}
+
+		it("coprime cycle lengths", function () {
+			const nfa = literalToNFA(/(?:a{2})+|(?:a{3})+/);
+			assert.deepEqual(nfa.wordLengths(), {
+				lengths: [],
+				progressions: [
+					{ start: 2, step: 6 },
+					{ start: 3, step: 6 },
+					{ start: 4, step: 6 },
+					{ start: 6, step: 6 },
+				],
+			});
+
+			// the period of the lengths is 7 * 11 = 77
+			const small = literalToNFA(/(?:a{7})*|(?:a{11})*/);
+			for (const fa of [small, DFA.fromFA(small)]) {
+				assert.throws(() => fa.wordLengths({ maxNodes: 50 }), TooManyNodesError);
+				assert.strictEqual(fa.wordLengths({ maxNodes: 100 }).progressions.length, 1 + 10 + 6);
+			}
+
+			// the period of the lengths is 7 * 11 * 13 * 17 * 19 = 323323
+			const large = literalToNFA(/(?:a{7})*|(?:a{11})*|(?:a{13})*|(?:a{17})*|(?:a{19})*/);
+			assert.throws(() => large.wordLengths(), TooManyNodesError);
+		});
+	});
+
+	describe("fromRegex constructions", function () {
+		const constructions: NFA.FromRegexOptions["construction"][] = ["glushkov", "antimirov"];
+		const literals: Literal[] = [
+			...FINITE_LITERALS,
+			...NON_FINITE_LITERALS,
+			...EMPTY_LITERALS,
+			...NON_EMPTY_LITERALS,
+			/(?:a*b*)*c/,
+			/(?:a{2,3}){2,}/,
+			/(?:a?){3}b/,
+			/"(?:[^"\\]|\\.)*"/,
+			/\p{L}+/u,
+			/(?<!a)b/,
+			/a(?=b)[a-z]/,
+		];
+
+		for (const construction of constructions) {
+			describe(`${construction}`, function () {
+				for (const literal of literals) {
+					it(literalToString(literal), function () {
+						const { expression, maxCharacter } = Parser.fromLiteral(literal).parse();
+						for (const disableLookarounds of [false, true]) {
+							const expected = NFA.fromRegex(expression, { maxCharacter }, { disableLookarounds });
+							const actual = NFA.fromRegex(
+								expression,
+								{ maxCharacter },
+								{ construction, disableLookarounds }
+							);
+							assert.isTrue(actual.isEquivalentTo(expected).equivalent);
+						}
+					});
+				}
+			});
+		}
+
+		it("glushkov creates one state per character class", function () {
+			const { expression, maxCharacter } = Parser.fromLiteral(/(?:a|b)*abb|\d{2}/).parse();
+			const nfa = NFA.fromRegex(expression, { maxCharacter }, { construction: "glushkov" });
+			assert.strictEqual(nfa.nodes.count(), 1 + 5 + 2);
+		});
+
+		it("antimirov creates one state per partial derivative", function () {
+			const { expression, maxCharacter } = Parser.fromLiteral(/(?:a|b)*abb|\d{2}/).parse();
+			const nfa = NFA.fromRegex(expression, { maxCharacter }, { construction: "antimirov" });
+			// (a|b)*abb, bb, b, \d, and the empty word
+			assert.strictEqual(nfa.nodes.count(), 1 + 4 + 1);
+		});
+
+		it("respects maxNodes", function () {
+			const { expression, maxCharacter } = Parser.fromLiteral(/a{1000}/).parse();
+			for (const construction of constructions) {
+				assert.throws(() => NFA.fromRegex(expression, { maxCharacter }, { construction, maxNodes: 100 }));
+			}
+		});
+	});
+
+	describe("reduce", function () {
+		const relations: NFA.ReduceOptions["relation"][] = ["bisimulation", "simulation"];
+		const constructions: NFA.FromRegexOptions["construction"][] = ["thompson", "glushkov"];
+		const literals: Literal[] = [
+			...FINITE_LITERALS,
+			...NON_FINITE_LITERALS,
+			...EMPTY_LITERALS,
+			...NON_EMPTY_LITERALS,
+			/(?:a|b)*abb/,
+			/foo|foobar|bar/,
+			/a*|[ab]*/,
+			/x(?:a*|[ab]*)y/,
+		];
+
+		for (const relation of relations) {
+			describe(`${relation}`, function () {
+				for (const literal of literals) {
+					it(literalToString(literal), function () {
+						const { expression, maxCharacter } = Parser.fromLiteral(literal).parse();
+						for (const construction of constructions) {
+							const expected = NFA.fromRegex(expression, { maxCharacter }, { construction });
+							const actual = expected.copy();
+							actual.reduce({ relation });
+							assert.isTrue(actual.isEquivalentTo(expected).equivalent);
+							assert.isAtMost(actual.nodes.count(), expected.nodes.count());
+						}
+					});
+				}
+			});
+		}
+
+		function reducedCount(literal: Literal, options?: NFA.ReduceOptions): number {
+			const { expression, maxCharacter } = Parser.fromLiteral(literal).parse();
+			const nfa = NFA.fromRegex(expression, { maxCharacter }, { construction: "glushkov" });
+			nfa.reduce(options);
+			return nfa.nodes.count();
+		}
+
+		it("merges bisimilar states", function () {
+			assert.strictEqual(reducedCount(/(?:a|b)*abb/), 5);
+			assert.strictEqual(reducedCount(/ab|ac|ad/), 3);
+			assert.strictEqual(reducedCount(/foo|foobar|bar/), 7);
+		});
+
+		it("simulation removes subsumed transitions", function () {
+			assert.strictEqual(reducedCount(/x(?:a*|[ab]*)/), 4);
+			assert.strictEqual(reducedCount(/x(?:a*|[ab]*)/, { relation: "simulation" }), 2);
+		});
+
+		it("simulation handles large NFAs", function () {
+			const { expression, maxCharacter } = Parser.fromLiteral(/(?:[a-z]{1,3}\d?|x[a-c]+y){1,40}/).parse();
+			const expected = NFA.fromRegex(expression, { maxCharacter }, { construction: "glushkov" });
+			const actual = expected.copy();
+			actual.reduce({ relation: "simulation" });
+			assert.isBelow(actual.nodes.count(), expected.nodes.count());
+
+			// the NFAs are too large to check their equivalence
+			for (const word of ["", "a", "abc1", "xaby", "xy", "abcd", "ab1xcay", "1", "xa", "a1".repeat(40)]) {
+				const chars = fromStringToUnicode(word);
+				assert.strictEqual(actual.test(chars), expected.test(chars), JSON.stringify(word));
+			}
+		});
+
+		it("simulation respects maxNodes", function () {
+			const { expression, maxCharacter } = Parser.fromLiteral(/a{20}/).parse();
+			const nfa = NFA.fromRegex(expression, { maxCharacter }, { construction: "glushkov" });
+			const expected = nfa.copy();
+			assert.throws(() => nfa.reduce({ relation: "simulation", maxNodes: 100 }), TooManyNodesError);
+			assert.deepEqual(nfa.toJSON(), expected.toJSON());
+			nfa.reduce({ relation: "bisimulation", maxNodes: 100 });
+		});
+	});
+
+	describe("ambiguity", function () {
+		function countAcceptingPaths(nfa: NFA, word: readonly number[]): number {
+			let counts = new Map<NFA.ReadonlyNode, number>([[nfa.nodes.initial, 1]]);
+			for (const char of word) {
+				const next = new Map<NFA.ReadonlyNode, number>();
+				counts.forEach((count, node) => {
+					node.out.forEach((characters, to) => {
+						if (characters.has(char)) {
+							next.set(to, (next.get(to) ?? 0) + count);
+						}
+					});
+				});
+				counts = next;
+			}
+
+			const finals: ReadonlySet<NFA.ReadonlyNode> = nfa.nodes.finals;
+			let total = 0;
+			counts.forEach((count, node) => {
+				if (finals.has(node)) {
+					total += count;
+				}
+			});
+			return total;
+		}
+
+		const cases: { literal: Literal; kind: NFA.Ambiguity["kind"]; degree?: number }[] = [
+			{ literal: /[^\s\S]/, kind: "unambiguous" },
+			{ literal: /abc/, kind: "unambiguous" },
+			{ literal: /a|a/, kind: "unambiguous" },
+			{ literal: /(?:a+)+/, kind: "unambiguous" },
+			{ literal: /\d+(?:\.\d+)?/, kind: "unambiguous" },
+			{ literal: /a*(?:a|b)/, kind: "unambiguous" },
+			{ literal: /(?:a|ab)(?:c|bc)/, kind: "finite" },
+			{ literal: /a*a*/, kind: "polynomial", degree: 1 },
+			{ literal: /a*b*a*/, kind: "polynomial", degree: 1 },
+			{ literal: /[ab]*a[ab]*/, kind: "polynomial", degree: 1 },
+			{ literal: /a*a*a*/, kind: "polynomial", degree: 2 },
+			{ literal: /a*a*xb*b*/, kind: "polynomial", degree: 2 },
+			{ literal: /(?:aa|a)*/, kind: "exponential" },
+			{ literal: /(?:a|b|ab)*c/, kind: "exponential" },
+		];
+
+		for (const { literal, kind, degree } of cases) {
+			it(literalToString(literal), function () {
+				const nfa = literalToNFA(literal);
+				const result = nfa.ambiguity();
+				assert.strictEqual(result.kind, kind);
+				if (result.kind === "polynomial") {
+					assert.strictEqual(result.degree, degree);
+				}
+				if (result.kind !== "unambiguous") {
+					assert.isAtLeast(countAcceptingPaths(nfa, result.word), 2);
+				}
+			});
+		}
+
+		it("ignores states that can't reach a final state", function () {
+			const nfa = literalToNFA(/a/);
+			const all = CharSet.all(nfa.maxCharacter);
+			// a*a* is polynomially ambiguous but it can't reach a final state
+			const trap1 = nfa.nodes.createNode();
+			const trap2 = nfa.nodes.createNode();
+			nfa.nodes.linkNodes(nfa.nodes.initial, trap1, all);
+			nfa.nodes.linkNodes(trap1, trap1, all);
+			nfa.nodes.linkNodes(trap1, trap2, all);
+			nfa.nodes.linkNodes(trap2, trap2, all);
+			assert.strictEqual(nfa.ambiguity().kind, "unambiguous");
+		});
+	});
+
+	describe("diagnose", function () {
+		const nfa = literalToNFA(/\d{3}-\d{4}|\d+x/);
+
+		function diagnose(
+			word: string
+		): { prefix: string; index: number; expected: string; accepted: boolean; incomplete: boolean } {
+			const { prefix, index, expected, accepted, incomplete } = nfa.diagnose(fromStringToUnicode(word));
+			return { prefix: fromUnicodeToString(prefix), index, expected: expected.toString(), accepted, incomplete };
+		}
+		function chars(...ranges: CharRange[]): string {
+			return CharSet.empty(0xffff).union(ranges).toString();
+		}
+		const digits = { min: 0x30, max: 0x39 };
+
+		it("accepted", function () {
+			assert.deepEqual(diagnose("123-4567"), {
+				prefix: "123-4567",
+				index: 8,
+				expected: chars(),
+				accepted: true,
+				incomplete: false,
+			});
+			assert.deepEqual(diagnose("12x"), {
+				prefix: "12x",
+				index: 3,
+				expected: chars(),
+				accepted: true,
+				incomplete: false,
+			});
+		});
+
+		it("incomplete", function () {
+			assert.deepEqual(diagnose(""), {
+				prefix: "",
+				index: 0,
+				expected: chars(digits),
+				accepted: false,
+				incomplete: true,
+			});
+			assert.deepEqual(diagnose("123"), {
+				prefix: "123",
+				index: 3,
+				expected: chars({ min: 0x2d, max: 0x2d }, digits, { min: 0x78, max: 0x78 }),
+				accepted: false,
+				incomplete: true,
+			});
+		});
+
+		it("rejected", function () {
+			assert.deepEqual(diagnose("123-45a"), {
+				prefix: "123-45",
+				index: 6,
+				expected: chars(digits),
+				accepted: false,
+				incomplete: false,
+			});
+			assert.deepEqual(diagnose("12-"), {
+				prefix: "12",
+				index: 2,
+				expected: chars(digits, { min: 0x78, max: 0x78 }),
+				accepted: false,
+				incomplete: false,
+			});
+		});
+
+		it("ignores states that cannot reach a final state", function () {
+			// 0 -a-> 1 -b-> 2 (final) and 0 -a-> 3 -c-> 3 (trap)
+			const trap = NFA.fromJSON({
+				version: 1,
+				maxCharacter: 0xffff,
+				states: 4,
+				initial: 0,
+				finals: [2],
+				transitions: [
+					{ from: 0, to: 1, ranges: [{ min: 0x61, max: 0x61 }] },
+					{ from: 1, to: 2, ranges: [{ min: 0x62, max: 0x62 }] },
+					{ from: 0, to: 3, ranges: [{ min: 0x61, max: 0x61 }] },
+					{ from: 3, to: 3, ranges: [{ min: 0x63, max: 0x63 }] },
+				],
+			});
+			const result = trap.diagnose(fromStringToUnicode("ac"));
+			assert.strictEqual(result.index, 1);
+			assert.isTrue(result.expected.equals(CharSet.empty(0xffff).union([{ min: 0x62, max: 0x62 }])));
+		});
+
+		it("empty language", function () {
+			const result = NFA.empty({ maxCharacter: 0xff }).diagnose([]);
+			assert.isFalse(result.accepted);
+			assert.isFalse(result.incomplete);
+			assert.strictEqual(result.index, 0);
+			assert.isTrue(result.expected.isEmpty);
+		});
+	});
+
+	describe("countWords", function () {
+		it("counts words instead of paths", function () {
+			const nfa = literalToNFA(/(?:a|ab)(?:c|bc)|a|a/);
+			// ac, abc, abbc, a
+			assert.strictEqual(nfa.countWords(), BigInt(4));
+			assert.strictEqual(nfa.countWords(3), BigInt(1));
+			assert.strictEqual(nfa.countWords(2, 3), BigInt(2));
+		});
+
+		it("counts the characters of transitions", function () {
+			const nfa = literalToNFA(/[a-c]{2,4}|\d/);
+			assert.strictEqual(nfa.countWords(), BigInt(10 + 9 + 27 + 81));
+			assert.strictEqual(nfa.countWords(0), BigInt(0));
+			assert.strictEqual(nfa.countWords(4), BigInt(81));
+			assert.strictEqual(nfa.countWords(3, 10), BigInt(27 + 81));
+			assert.strictEqual(nfa.countWords(4, 3), BigInt(0));
+		});
+
+		it("counts words of infinite languages by length", function () {
+			const nfa = literalToNFA(/\w{8,}/);
+			assert.strictEqual(nfa.countWords(8), BigInt(63 ** 8));
+			assert.strictEqual(nfa.countWords(8, 9), BigInt(63 ** 8) * BigInt(1 + 63));
+			assert.strictEqual(nfa.countWords(0, 7), BigInt(0));
+			assert.throws(() => nfa.countWords());
+			assert.throws(() => nfa.countWords(8, Infinity));
+		});
+
+		it("rejects invalid lengths", function () {
+			const nfa = literalToNFA(/a*/);
+			assert.throws(() => nfa.countWords(-1), RangeError);
+			assert.throws(() => nfa.countWords(1.5), RangeError);
+			assert.throws(() => nfa.countWords(0, NaN), RangeError);
+		});
+
+		it("respects the creation options of the DFA", function () {
+			const nfa = literalToNFA(/(?:a|b)*a(?:a|b){10}/);
+			assert.throws(() => nfa.countWords(11, 11, { maxNodes: 100 }), TooManyNodesError);
+			assert.strictEqual(nfa.countWords(11, 11, { maxNodes: 10_000 }), BigInt(2 ** 10));
+		});
+
+		describe("agrees with word sets", function () {
+			for (const literal of FINITE_LITERALS) {
+				it(`${literalToString(literal)}`, function () {
+					let expected = BigInt(0);
+					for (const wordSet of literalToDFA(literal).wordSets()) {
+						expected += wordSet.reduce((product, cs) => product * BigInt(cs.size), BigInt(1));
+					}
+					assert.strictEqual(literalToNFA(literal).countWords(), expected);
+				});
+			}
+		});
+	});
+
 	describe("empty() & all()", function () {
 		it("empty()", function () {
 			assert.isTrue(NFA.empty({ maxCharacter: 0xff }).isEmpty);
@@ -1067,6 +1783,51 @@ describe("NFA", function () {
 		}
 	});
 
+	describe("infixes", function () {
+		test([
+			{
+				words: [],
+			},
+			{
+				words: [""],
+			},
+			{
+				words: ["", "a"],
+			},
+			{
+				words: ["", "a", "aa", "aaa"],
+			},
+			{
+				words: ["foobar", "foo", "bar"],
+			},
+			{
+				words: ["bet", "let", "street", "sheet", "diet"],
+			},
+			{
+				words: ["bet", "bat", "boot", "boat"],
+			},
+		]);
+
+		interface TestCase {
+			words: readonly string[];
+		}
+
+		function test(cases: TestCase[]): void {
+			for (const { words } of cases) {
+				const title = words.map(w => JSON.stringify(w)).join(", ");
+				it(`${title}`, function () {
+					const chars = words.map(w => fromStringToUnicode(w));
+					const nfa = NFA.fromWords(chars, { maxCharacter: 0x10ffff });
+					nfa.infixes();
+
+					const acutal = [...new Set([...nfa.words()].map(fromUnicodeToString))];
+					const expected = [...infixes(words)];
+					assert.sameMembers(acutal, expected);
+				});
+			}
+		}
+	});
+
 	describe("suffixes", function () {
 		test([
 			{
@@ -1112,6 +1873,68 @@ describe("NFA", function () {
 		}
 	});
 
+	describe("leftQuotient & rightQuotient", function () {
+		const wordCases: { words: readonly string[]; by: readonly string[] }[] = [
+			{ words: [], by: [""] },
+			{ words: ["foo"], by: [] },
+			{ words: ["", "a", "ab"], by: [""] },
+			{ words: ["foo", "foobar", "bar"], by: ["foo"] },
+			{ words: ["foo", "foobar", "bar"], by: ["", "bar", "foobar"] },
+			{ words: ["bet", "let", "street", "sheet", "diet"], by: ["et", "eet", "s", "st"] },
+		];
+
+		for (const { words, by } of wordCases) {
+			it(`${JSON.stringify(words)} by ${JSON.stringify(by)}`, function () {
+				const options = { maxCharacter: 0x10ffff };
+				const byNfa = NFA.fromWords(by.map(fromStringToUnicode), options);
+
+				const left = NFA.fromWords(words.map(fromStringToUnicode), options);
+				left.leftQuotient(byNfa);
+				const expectedLeft = new Set<string>();
+				words.forEach(w => by.filter(u => w.startsWith(u)).forEach(u => expectedLeft.add(w.slice(u.length))));
+				assert.sameMembers(getWords(left), [...expectedLeft], "left");
+
+				const right = NFA.fromWords(words.map(fromStringToUnicode), options);
+				right.rightQuotient(byNfa);
+				const expectedRight = new Set<string>();
+				words.forEach(w =>
+					by.filter(u => w.endsWith(u)).forEach(u => expectedRight.add(w.slice(0, w.length - u.length)))
+				);
+				assert.sameMembers(getWords(right), [...expectedRight], "right");
+			});
+		}
+
+		const regexCases: { literal: Literal; by: Literal; left: Literal; right: Literal }[] = [
+			{ literal: /ab*c/, by: /ab*/, left: /b*c/, right: /[^\s\S]/ },
+			{ literal: /ab*c/, by: /b*c/, left: /[^\s\S]/, right: /ab*/ },
+			{ literal: /a*/, by: /a*/, left: /a*/, right: /a*/ },
+			{ literal: /\w+\.txt/, by: /\.txt/, left: /[^\s\S]/, right: /\w+/ },
+			{ literal: /https?:\/\/[a-z]+\/\w*/, by: /https:\/\//, left: /[a-z]+\/\w*/, right: /[^\s\S]/ },
+			{ literal: /(?:ab)+/, by: /a/, left: /b(?:ab)*/, right: /[^\s\S]/ },
+			{ literal: /(?:ab)+/, by: /b/, left: /[^\s\S]/, right: /(?:ab)*a/ },
+		];
+
+		for (const { literal, by, left, right } of regexCases) {
+			it(`${literalToString(literal)} by ${literalToString(by)}`, function () {
+				const byNfa = literalToNFA(by);
+
+				const actualLeft = literalToNFA(literal);
+				actualLeft.leftQuotient(byNfa);
+				assert.isTrue(actualLeft.isEquivalentTo(literalToNFA(left)).equivalent, "left");
+
+				const actualRight = literalToNFA(literal);
+				actualRight.rightQuotient(byNfa);
+				assert.isTrue(actualRight.isEquivalentTo(literalToNFA(right)).equivalent, "right");
+			});
+		}
+
+		it("by itself", function () {
+			const nfa = literalToNFA(/a|ab/);
+			nfa.leftQuotient(nfa);
+			assert.sameMembers(getWords(nfa), ["", "b"]);
+		});
+	});
+
 	describe("reverse (words)", function () {
 		test([
 			{
@@ -1252,9 +2075,91 @@ describe("NFA", function () {
 		}
 	});
 
+	describe("fromEditDistance", function () {
+		function editDistance(a: string, b: string, transpositions: boolean): number {
+			const d: number[][] = [];
+			for (let i = 0; i <= a.length; i++) {
+				d.push([]);
+				for (let j = 0; j <= b.length; j++) {
+					if (i === 0 || j === 0) {
+						d[i].push(i + j);
+					} else {
+						const substitution = d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+						d[i].push(Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, substitution));
+						if (transpositions && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+							d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+						}
+					}
+				}
+			}
+			return d[a.length][b.length];
+		}
+
+		// all words over {a, b, c} with a length of at most 4
+		const inputs: string[] = [""];
+		for (let i = 0; i < inputs.length && inputs[i].length < 4; i++) {
+			for (const c of "abc") {
+				inputs.push(inputs[i] + c);
+			}
+		}
+
+		const cases: { words: string[]; distance: number; transpositions: boolean }[] = [
+			{ words: [], distance: 1, transpositions: false },
+			{ words: [""], distance: 2, transpositions: false },
+			{ words: ["abc", "ba"], distance: 0, transpositions: false },
+			{ words: ["abc", "ba"], distance: 1, transpositions: false },
+			{ words: ["abc", "ba"], distance: 1, transpositions: true },
+			{ words: ["aab"], distance: 2, transpositions: false },
+			{ words: ["aab"], distance: 2, transpositions: true },
+			{ words: ["ca", "cab"], distance: 1, transpositions: true },
+		];
+
+		for (const { words, distance, transpositions } of cases) {
+			it(`${JSON.stringify(words)} with distance ${distance}${
+				transpositions ? " and transpositions" : ""
+			}`, function () {
+				const fa = NFA.fromWords(words.map(fromStringToUnicode), { maxCharacter: 0xff });
+				const nfa = NFA.fromEditDistance(fa, distance, { transpositions });
+				for (const input of inputs) {
+					const expected = words.some(w => editDistance(input, w, transpositions) <= distance);
+					assert.strictEqual(nfa.test(fromStringToUnicode(input)), expected, JSON.stringify(input));
+				}
+			});
+		}
+
+		it("infinite languages", function () {
+			const nfa = NFA.fromEditDistance(literalToNFA(/(?:ab)+/), 1);
+			for (const word of ["ab", "abab", "b", "aab", "abcab", "ababa"]) {
+				assert.isTrue(nfa.test(fromStringToUnicode(word)), word);
+			}
+			for (const word of ["", "ba", "bba", "aabb", "abbaab"]) {
+				assert.isFalse(nfa.test(fromStringToUnicode(word)), word);
+			}
+		});
+
+		it("fuzzy matching", function () {
+			const vocabulary = literalToNFA(/apple|banana|cherry/);
+			const input = NFA.fromWords([fromStringToUnicode("banan")], { maxCharacter: 0xffff });
+			const words = [...NFA.fromEditDistance(input, 1).intersectionWords(vocabulary)];
+			assert.deepEqual(words.map(fromUnicodeToString), ["banana"]);
+		});
+
+		it("invalid distances", function () {
+			const fa = literalToNFA(/a/);
+			for (const distance of [-1, 0.5, Infinity, NaN]) {
+				assert.throws(() => NFA.fromEditDistance(fa, distance), RangeError);
+			}
+		});
+	});
+
 	describe("Safe creation", function () {
 		const testNfa = literalToNFA(/a{1000}/);
 
+		it(NFA.fromEditDistance.name, function () {
+			assert.throws(() => {
+				NFA.fromEditDistance(literalToNFA(/a{100}/), 10, { maxNodes: 100 });
+			});
+		});
 		it(NFA.fromFA.name, function () {
 			assert.throws(() => {
 				NFA.fromFA(testNfa, { maxNodes: 100 });
@@ -0,0 +1,148 @@
+import { assert } from "chai";
+import { MatchSpan, Searcher } from "../src/search";
+import { Literal, Parser } from "../src/js";
+import { literalToNFA, literalToString } from "./helper/fa";
+import { fromStringToUTF16 } from "../src/words";
+
+function toSearcher(literal: Literal, semantics: Searcher.Semantics): Searcher {
+	const { expression, maxCharacter } = Parser.fromLiteral(literal).parse({ lazyQuantifiers: "throw" });
+	return Searcher.fromRegex(expression, { maxCharacter }, { semantics });
+}
+
+function spans(searcher: Searcher, input: string): [number, number][] {
+	return searcher.findAll(fromStringToUTF16(input)).map(({ start, end }) => [start, end]);
+}
+
+describe("Searcher", function () {
+	describe("leftmost-first", function () {
+		const cases: { literal: Literal; inputs: string[] }[] = [
+			{ literal: /a/, inputs: ["", "a", "bab", "aaa"] },
+			{ literal: /a*/, inputs: ["", "a", "bab", "baab"] },
+			{ literal: /a|ab/, inputs: ["ab", "abab"] },
+			{ literal: /ab|a/, inputs: ["ab", "aab"] },
+			{ literal: /(?:a|ab)(?:c|bcd)/, inputs: ["abcd", "xabcdx"] },
+			{ literal: /(?:a+|b+)*c?/, inputs: ["aabbc", "cab", ""] },
+			{ literal: /\d{2,4}/, inputs: ["1", "12345678", "1 22 333 4444 55555"] },
+			{ literal: /"(?:[^"\\]|\\.)*"/, inputs: ['say "hi" and "\\"bye\\""', '"unterminated'] },
+			{ literal: /(?:)/, inputs: ["", "abc"] },
+			{ literal: /x(?:a*)*y/, inputs: ["xy xaay xaa"] },
+		];
+
+		for (const { literal, inputs } of cases) {
+			it(literalToString(literal), function () {
+				const searcher = toSearcher(literal, "leftmost-first");
+				const regex = new RegExp(literal.source, literal.flags + "g");
+				for (const input of inputs) {
+					const expected: [number, number][] = [];
+					regex.lastIndex = 0;
+					let m;
+					while ((m = regex.exec(input))) {
+						expected.push([m.index, m.index + m[0].length]);
+						if (m[0].length === 0) {
+							regex.lastIndex++;
+						}
+					}
+					assert.deepEqual(spans(searcher, input), expected, JSON.stringify(input));
+				}
+			});
+		}
+
+		it("find from an index", function () {
+			const searcher = toSearcher(/a+/, "leftmost-first");
+			const input = fromStringToUTF16("aa baa");
+			assert.deepEqual(searcher.find(input), { start: 0, end: 2 });
+			assert.deepEqual(searcher.find(input, 1), { start: 1, end: 2 });
+			assert.deepEqual(searcher.find(input, 2), { start: 4, end: 6 });
+			assert.isUndefined(searcher.find(input, 6));
+		});
+
+		it("does not support assertions", function () {
+			assert.throws(() => toSearcher(/a\b/, "leftmost-first"));
+		});
+
+		it("does not support lazy quantifiers", function () {
+			assert.throws(() => toSearcher(/(a?)+?/, "leftmost-first"), /Lazy quantifiers/);
+			assert.throws(() => toSearcher(/a*?b/, "leftmost-first"), /Lazy quantifiers/);
+			assert.deepEqual(spans(toSearcher(/a{2}?/, "leftmost-first"), "aaaa"), [
+				[0, 2],
+				[2, 4],
+			]);
+		});
+	});
+
+	describe("leftmost-longest", function () {
+		const cases: { literal: Literal; input: string; expected: [number, number][] }[] = [
+			{ literal: /a/, input: "bab", expected: [[1, 2]] },
+			{
+				literal: /a|ab/,
+				input: "abab",
+				expected: [
+					[0, 2],
+					[2, 4],
+				],
+			},
+			{ literal: /(?:a|ab)(?:c|bcd)/, input: "xabcdx", expected: [[1, 5]] },
+			{
+				literal: /a*/,
+				input: "baab",
+				expected: [
+					[0, 0],
+					[1, 3],
+					[3, 3],
+					[4, 4],
+				],
+			},
+			{ literal: /[^\s\S]/, input: "abc", expected: [] },
+			{
+				literal: /\d+|\d+\.\d+/,
+				input: "1.5 22 .3",
+				expected: [
+					[0, 3],
+					[4, 6],
+					[8, 9],
+				],
+			},
+			{ literal: /b(?:a|b)*a(?:a|b){3}/, input: "bbaaaabbb", expected: [[0, 9]] },
+		];
+
+		for (const { literal, input, expected } of cases) {
+			it(`${literalToString(literal)} in ${JSON.stringify(input)}`, function () {
+				assert.deepEqual(spans(toSearcher(literal, "leftmost-longest"), input), expected);
+				assert.deepEqual(spans(Searcher.fromFA(literalToNFA(literal)), input), expected);
+			});
+		}
+
+		it("find from an index", function () {
+			const searcher = Searcher.fromFA(literalToNFA(/a|ab/));
+			const input = fromStringToUTF16("abab");
+			const expected: (MatchSpan | undefined)[] = [
+				{ start: 0, end: 2 },
+				{ start: 2, end: 4 },
+				{ start: 2, end: 4 },
+				undefined,
+				undefined,
+			];
+			assert.deepEqual(
+				[0, 1, 2, 3, 4].map(i => searcher.find(input, i)),
+				expected
+			);
+		});
+
+		it("does not support assertions", function () {
+			// JavaScript doesn't find any matches for these
+			assert.throws(() => toSearcher(/^a/, "leftmost-longest"), /Assertions/);
+			assert.throws(() => toSearcher(/a$/, "leftmost-longest"), /Assertions/);
+			assert.throws(() => toSearcher(/\ba/, "leftmost-longest"), /Assertions/);
+		});
+
+		it("skips characters above the maximum character", function () {
+			const input = [0x61, 0x62, 0x10000, 0x61, 0x62];
+			const expected: MatchSpan[] = [
+				{ start: 0, end: 2 },
+				{ start: 3, end: 5 },
+			];
+			assert.deepEqual(toSearcher(/ab?/, "leftmost-longest").findAll(input), expected);
+			assert.deepEqual(Searcher.fromFA(literalToNFA(/ab?/)).findAll(input), expected);
+		});
+	});
+});
@@ -0,0 +1,132 @@
+import { assert } from "chai";
+import { TaggedNFA } from "../src/tagged-nfa";
+import { Literal, Parser } from "../src/js";
+import { literalToString } from "./helper/fa";
+import { fromStringToUTF16 } from "../src/words";
+import { TooManyNodesError } from "../src/finite-automaton";
+
+function toTaggedNFA(literal: Literal): TaggedNFA {
+	const { expression, maxCharacter } = Parser.fromLiteral(literal).parse({
+		captures: "keep",
+		lazyQuantifiers: "throw",
+	});
+	return TaggedNFA.fromRegex(expression, { maxCharacter });
+}
+
+function toArray(submatches: TaggedNFA.Submatches | undefined): ([number, number] | undefined)[] | undefined {
+	return submatches?.map(span => (span ? [span.start, span.end] : undefined));
+}
+
+/**
+ * The result of `RegExp#exec` with the `d` flag.
+ */
+type ExecArrayWithIndices = RegExpExecArray & { indices?: ([number, number] | undefined)[] };
+
+describe("TaggedNFA", function () {
+	describe("exec", function () {
+		const cases: { literal: Literal; inputs: string[] }[] = [
+			{ literal: /(a)(b)?/, inputs: ["", "a", "ab", "xxab"] },
+			{ literal: /(a|ab)(c|bcd)(d*)/, inputs: ["abcd", "xabcdx"] },
+			{ literal: /(a*)+b/, inputs: ["b", "aab"] },
+			{ literal: /(?:(a)|(b))+/, inputs: ["ab", "ba", "abab"] },
+			{ literal: /(?:(a)|b)*/, inputs: ["ab", "aba"] },
+			{ literal: /((a)|(b)){2,3}/, inputs: ["ab", "aba", "abba"] },
+			{ literal: /(\d+)-(\d+)?/, inputs: ["12-34", "1-", "a 1-2"] },
+			{ literal: /"((?:[^"\\]|\\.)*)"/, inputs: ['say "hi" and "\\"bye\\""'] },
+			{ literal: /(a)|b|(c)/, inputs: ["b", "c", "xa"] },
+			{ literal: /()|a/, inputs: ["", "a"] },
+			{ literal: /x(a|())*y/, inputs: ["xy", "xaay"] },
+		];
+
+		for (const { literal, inputs } of cases) {
+			it(literalToString(literal), function () {
+				const tnfa = toTaggedNFA(literal);
+				const regex = new RegExp(literal.source, literal.flags + "d");
+				for (const input of inputs) {
+					const match = regex.exec(input) as ExecArrayWithIndices | null;
+					const expected = match?.indices;
+					assert.deepEqual(
+						toArray(tnfa.exec(fromStringToUTF16(input))),
+						expected && [...expected],
+						JSON.stringify(input)
+					);
+				}
+			});
+		}
+
+		it("exec from an index", function () {
+			const tnfa = toTaggedNFA(/(a)+/);
+			const input = fromStringToUTF16("aa baa");
+			assert.deepEqual(toArray(tnfa.exec(input, 1)), [
+				[1, 2],
+				[1, 2],
+			]);
+			assert.deepEqual(toArray(tnfa.exec(input, 2)), [
+				[4, 6],
+				[5, 6],
+			]);
+			assert.isUndefined(tnfa.exec(input, 6));
+			assert.isUndefined(tnfa.exec(input, 7));
+		});
+	});
+
+	describe("match", function () {
+		it("only accepts whole words", function () {
+			const tnfa = toTaggedNFA(/(a+)(a*b)?/);
+			assert.deepEqual(toArray(tnfa.match(fromStringToUTF16("aaab"))), [
+				[0, 4],
+				[0, 3],
+				[3, 4],
+			]);
+			assert.deepEqual(toArray(tnfa.match(fromStringToUTF16("aa"))), [[0, 2], [0, 2], undefined]);
+			assert.isUndefined(tnfa.match(fromStringToUTF16("aab ")));
+			assert.isUndefined(tnfa.match(fromStringToUTF16("")));
+		});
+
+		it("prefers lower-priority paths that match the whole word", function () {
+			const tnfa = toTaggedNFA(/(a|ab)(b*)/);
+			assert.deepEqual(toArray(tnfa.match(fromStringToUTF16("ab"))), [
+				[0, 2],
+				[0, 1],
+				[1, 2],
+			]);
+		});
+
+		it("compares the fields of rewritten patterns", function () {
+			const original = toTaggedNFA(/(\w+)@(\w+)\.com|(\w+)@(\w+)\.org/);
+			const rewritten = toTaggedNFA(/(\w+)@(\w+)\.(?:com|org)/);
+			const word = fromStringToUTF16("foo@bar.org");
+			assert.notDeepEqual(toArray(original.match(word)), toArray(rewritten.match(word)));
+			assert.deepEqual(toArray(rewritten.match(word)), [
+				[0, 11],
+				[0, 3],
+				[4, 7],
+			]);
+		});
+	});
+
+	it("ignores capturing groups by default", function () {
+		const { expression, maxCharacter } = Parser.fromLiteral(/(a)(b)/).parse();
+		const tnfa = TaggedNFA.fromRegex(expression, { maxCharacter });
+		assert.strictEqual(tnfa.groupCount, 0);
+		assert.deepEqual(toArray(tnfa.exec(fromStringToUTF16("ab"))), [[0, 2]]);
+	});
+
+	it("does not support assertions", function () {
+		assert.throws(() => toTaggedNFA(/(a)\b/));
+	});
+
+	it("does not support lazy quantifiers", function () {
+		assert.throws(() => toTaggedNFA(/(a?)+?/), /Lazy quantifiers/);
+		assert.throws(() => toTaggedNFA(/(a)??/), /Lazy quantifiers/);
+		assert.deepEqual(toArray(toTaggedNFA(/(a){2}?/).exec(fromStringToUTF16("aa"))), [
+			[0, 2],
+			[1, 2],
+		]);
+	});
+
+	it("respects maxNodes", function () {
+		const { expression, maxCharacter } = Parser.fromLiteral(/(a{100}){100}/).parse({ captures: "keep" });
+		assert.throws(() => TaggedNFA.fromRegex(expression, { maxCharacter }, { maxNodes: 1000 }), TooManyNodesError);
+	});
+});
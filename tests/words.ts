@@ -0,0 +1,17 @@
+import { assert } from "chai";
+import { fromStringToUnicode, fromStringToUTF16, fromUnicodeToString, fromUTF16ToString } from "../src/words";
+
+describe("Words", function () {
+	it("fromStringToUTF16", function () {
+		assert.deepEqual(fromStringToUTF16(""), []);
+		assert.deepEqual(fromStringToUTF16("abc"), [0x61, 0x62, 0x63]);
+		assert.deepEqual(fromStringToUTF16("a\u{1F600}"), [0x61, 0xd83d, 0xde00]);
+		assert.strictEqual(fromUTF16ToString(fromStringToUTF16("a\u{1F600}")), "a\u{1F600}");
+	});
+
+	it("fromStringToUnicode", function () {
+		assert.deepEqual(fromStringToUnicode(""), []);
+		assert.deepEqual(fromStringToUnicode("a\u{1F600}"), [0x61, 0x1f600]);
+		assert.strictEqual(fromUnicodeToString(fromStringToUnicode("a\u{1F600}")), "a\u{1F600}");
+	});
+});